@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  filter,
+  filterValue,
+  sort,
+  type PVFilter,
+  type PVFilterBuilder,
+} from './filter.js';
+
+interface Post {
+  id: string;
+  title: string;
+  views: number;
+  published: boolean;
+  tags: string[];
+}
+
+// Branded filter strings, compared as plain strings
+const where = (build: (f: PVFilterBuilder<Post>) => PVFilter): string =>
+  filter<Post>(build);
+
+describe('filterValue', () => {
+  test('escapes quotes in strings', () => {
+    expect(filterValue("it's")).toBe("'it\\'s'");
+    expect(filterValue("' || 1 = 1 || '")).toBe("'\\' || 1 = 1 || \\''");
+  });
+
+  test('keeps backslashes from escaping the closing or inner quotes', () => {
+    expect(filterValue('C:\\')).toBe("'C:\\\\'");
+    expect(filterValue('C:\\\\')).toBe("'C:\\\\'");
+    expect(filterValue("\\' || 1 = 1 || '")).toBe("'\\\\\\' || 1 = 1 || \\''");
+  });
+
+  test('writes other values as literals', () => {
+    expect(filterValue(null)).toBe('null');
+    expect(filterValue(false)).toBe('false');
+    expect(filterValue(1.5)).toBe('1.5');
+    expect(filterValue(new Date('2024-01-02T03:04:05.000Z'))).toBe(
+      "'2024-01-02 03:04:05.000Z'",
+    );
+  });
+
+  test('rejects values PocketBase cannot read back', () => {
+    expect(() => filterValue(NaN)).toThrow('Cannot use NaN in a filter');
+  });
+});
+
+describe('filter', () => {
+  test('joins comparisons with grouping', () => {
+    expect(
+      where((f) =>
+        f.and(
+          f.eq('published', true),
+          f.or(f.like('title', 'pb'), f.gt('views', 10)),
+          undefined,
+        ),
+      ),
+    ).toBe("(published = true) && ((title ~ 'pb') || (views > 10))");
+  });
+
+  test('compares multi-value fields against one element', () => {
+    expect(where((f) => f.has('tags', 'news'))).toBe("tags ?= 'news'");
+  });
+
+  test('empty groups match everything for and, nothing for or and in', () => {
+    expect(where((f) => f.and())).toBe('');
+    expect(where((f) => f.or())).toBe('1 = 2');
+    expect(where((f) => f.in('id', []))).toBe('1 = 2');
+    expect(where((f) => f.in('id', ['a', 'b']))).toBe(
+      "(id = 'a') || (id = 'b')",
+    );
+  });
+});
+
+describe('sort', () => {
+  test('joins fields with direction prefixes', () => {
+    expect<string>(sort<Post>('-views', 'title')).toBe('-views,title');
+  });
+});
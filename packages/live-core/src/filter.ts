@@ -0,0 +1,129 @@
+/**
+ * Filter and sort builders for PocketVex Live Core
+ * Build PocketBase filter and sort strings from typed field names, with
+ * values escaped instead of interpolated
+ */
+
+import type { Entity } from './types.js';
+
+/**
+ * Filter string built by `filter()`
+ */
+export type PVFilter = string & { readonly __pvFilter: true };
+
+/**
+ * Sort string built by `sort()`
+ */
+export type PVSort = string & { readonly __pvSort: true };
+
+export type PVFilterValue = string | number | boolean | null | Date;
+
+type FieldOf<T> = Extract<keyof T, string>;
+
+// Multi-value fields compare against one of their elements
+type ValueOf<V> =
+  | (NonNullable<V> extends readonly (infer E)[] ? E : NonNullable<V>)
+  | null
+  | (NonNullable<V> extends string ? Date : never);
+
+type Comparison<T> = <K extends FieldOf<T>>(
+  field: K,
+  value: ValueOf<T[K]> & PVFilterValue,
+) => PVFilter;
+
+export interface PVFilterBuilder<T> {
+  eq: Comparison<T>;
+  neq: Comparison<T>;
+  gt: Comparison<T>;
+  gte: Comparison<T>;
+  lt: Comparison<T>;
+  lte: Comparison<T>;
+  /** Contains, case-insensitive (`~`) */
+  like: Comparison<T>;
+  notLike: Comparison<T>;
+  /** Any value of a multi-value field equals `value` (`?=`) */
+  has: Comparison<T>;
+  /** Equals one of `values`; matches nothing when `values` is empty */
+  in<K extends FieldOf<T>>(
+    field: K,
+    values: readonly (ValueOf<T[K]> & PVFilterValue)[],
+  ): PVFilter;
+  /** Matches everything when no filters are given */
+  and(...filters: (PVFilter | undefined)[]): PVFilter;
+  /** Matches nothing when no filters are given */
+  or(...filters: (PVFilter | undefined)[]): PVFilter;
+}
+
+export type PVSortField<T> =
+  FieldOf<T> | `-${FieldOf<T>}` | `+${FieldOf<T>}` | '@random';
+
+/**
+ * Quote a value as a PocketBase filter literal, escaping quotes
+ */
+export function filterValue(value: PVFilterValue): string {
+  if (value === null) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot use ${value} in a filter`);
+    }
+    return String(value);
+  }
+  const text =
+    value instanceof Date ? value.toISOString().replace('T', ' ') : value;
+  // An odd run of backslashes would escape the quote after it, so it gets
+  // one more; PocketBase only unescapes \' and keeps the extra backslash
+  const escaped = text
+    .replace(/\\+(?='|$)/g, (run) => (run.length % 2 ? `${run}\\` : run))
+    .replace(/'/g, "\\'");
+  return `'${escaped}'`;
+}
+
+/**
+ * Build a filter string with field names checked against the record type,
+ * e.g. `filter<PostsRecord>((f) => f.and(f.eq('author', userId), f.eq('published', true)))`
+ */
+export function filter<T = Entity>(
+  build: (f: PVFilterBuilder<T>) => PVFilter,
+): PVFilter {
+  return build(filterBuilder as PVFilterBuilder<T>);
+}
+
+/**
+ * Build a sort string, e.g. `sort<PostsRecord>('-created', 'title')`
+ */
+export function sort<T = Entity>(...fields: PVSortField<T>[]): PVSort {
+  return fields.join(',') as PVSort;
+}
+
+const compare =
+  (operator: string): Comparison<Entity> =>
+  (field, value) =>
+    `${field} ${operator} ${filterValue(value)}` as PVFilter;
+
+const join = (filters: (PVFilter | undefined)[], operator: '&&' | '||') => {
+  const parts = filters.filter((f): f is PVFilter => !!f);
+  // An empty filter matches everything, which is right for `and` only
+  if (parts.length === 0 && operator === '||') return '1 = 2' as PVFilter;
+  if (parts.length === 1) return parts[0]!;
+  return parts.map((f) => `(${f})`).join(` ${operator} `) as PVFilter;
+};
+
+const filterBuilder: PVFilterBuilder<Entity> = {
+  eq: compare('='),
+  neq: compare('!='),
+  gt: compare('>'),
+  gte: compare('>='),
+  lt: compare('<'),
+  lte: compare('<='),
+  like: compare('~'),
+  notLike: compare('!~'),
+  has: compare('?='),
+  in: (field, values) =>
+    join(
+      values.map((value) => filterBuilder.eq(field, value)),
+      '||',
+    ),
+  and: (...filters) => join(filters, '&&'),
+  or: (...filters) => join(filters, '||'),
+};
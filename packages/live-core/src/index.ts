@@ -5,3 +5,4 @@
 export * from './types.js';
 export * from './client.js';
 export * from './utils.js';
+export * from './filter.js';
@@ -6,7 +6,9 @@ export type PVQueryKey = string | [string, PVQueryParams];
 
 export type PVQueryParams = {
   collection: string;
+  /** PocketBase filter; `filter()` builds one with escaped values */
   filter?: string;
+  /** PocketBase sort; `sort()` builds one from checked field names */
   sort?: string;
   limit?: number;
   expand?: string;
@@ -20,22 +20,29 @@ export function parseKey(key: string): PVQueryParams {
 }
 
 /**
- * Create a comparison function from a sort string
+ * Create a comparison function from a sort string, e.g. `-created,title`
  */
 export function cmpFromSort(
   sort?: string,
 ): ((a: Entity, b: Entity) => number) | undefined {
   if (!sort) return undefined;
 
-  const desc = sort.startsWith('-');
-  const field = desc ? sort.slice(1) : sort;
+  const keys = sort.split(',').map((part) => {
+    const key = part.trim();
+    const desc = key.startsWith('-');
+    return { desc, field: desc || key.startsWith('+') ? key.slice(1) : key };
+  });
+  // @random and other special sorts can only be done by the server
+  if (keys.some(({ field }) => field.startsWith('@'))) return undefined;
 
   return (a: Entity, b: Entity) => {
-    const va = a[field];
-    const vb = b[field];
+    for (const { field, desc } of keys) {
+      const va = a[field];
+      const vb = b[field];
 
-    if (va === vb) return 0;
-    return (va > vb ? 1 : -1) * (desc ? -1 : 1);
+      if (va !== vb) return (va > vb ? 1 : -1) * (desc ? -1 : 1);
+    }
+    return 0;
   };
 }
 
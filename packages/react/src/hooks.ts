@@ -3,7 +3,14 @@
  */
 
 import { useSyncExternalStore, useMemo, useRef } from 'react';
-import type { PVClient, PVQueryKey, PVQueryState } from '@pocketvex/live-core';
+import { filter } from '@pocketvex/live-core';
+import type {
+  PVClient,
+  PVFilterBuilder,
+  PVQueryKey,
+  PVQueryParams,
+  PVQueryState,
+} from '@pocketvex/live-core';
 import { usePVClient } from './context.js';
 
 /**
@@ -63,18 +70,27 @@ export function usePVRecord<T = any>(
 ) {
   return usePVQuery<T>(
     client,
-    ['pv:record', { collection, filter: `id = "${id}"`, limit: 1 }],
+    [
+      'pv:record',
+      {
+        collection,
+        filter: filter((f: PVFilterBuilder<{ id: string }>) => f.eq('id', id)),
+        limit: 1,
+      },
+    ],
     { policy: 'live' },
   );
 }
 
 /**
- * Hook for list queries with common parameters
+ * Hook for list queries with common parameters. Build `filter` and `sort`
+ * with the live-core builders, e.g.
+ * `{ filter: filter<PostRecord>((f) => f.eq('author', userId)), sort: sort<PostRecord>('-created') }`
  */
 export function usePVList<T = any>(
   client: PVClient,
   collection: string,
-  params?: { filter?: string; sort?: string; limit?: number; expand?: string },
+  params?: Omit<PVQueryParams, 'collection'>,
 ) {
   return usePVQuery<T[]>(client, ['pv:list', { collection, ...params }], {
     policy: 'live',
@@ -157,7 +173,7 @@ export function usePVRecordCtx<T = any>(collection: string, id: string) {
 
 export function usePVListCtx<T = any>(
   collection: string,
-  params?: { filter?: string; sort?: string; limit?: number; expand?: string },
+  params?: Omit<PVQueryParams, 'collection'>,
 ) {
   const client = usePVClient();
   return usePVList<T>(client, collection, params);
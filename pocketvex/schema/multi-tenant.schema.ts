@@ -24,7 +24,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: false,
           options: {
-            collectionId: '_pb_users_auth_',
+            collection: 'users',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -109,7 +109,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: false,
           options: {
-            collectionId: 'a1b2c3d4e5f6g7h',
+            collection: 'apps',
             cascadeDelete: true,
             minSelect: null,
             maxSelect: 1,
@@ -123,7 +123,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: false,
           options: {
-            collectionId: '_pb_users_auth_',
+            collection: 'users',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -159,7 +159,7 @@ export const multiTenantSchema = {
           required: false,
           presentable: false,
           options: {
-            collectionId: '_pb_users_auth_',
+            collection: 'users',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -192,7 +192,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: false,
           options: {
-            collectionId: 'a1b2c3d4e5f6g7h',
+            collection: 'apps',
             cascadeDelete: true,
             minSelect: null,
             maxSelect: 1,
@@ -238,7 +238,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: false,
           options: {
-            collectionId: '_pb_users_auth_',
+            collection: 'users',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -270,7 +270,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: false,
           options: {
-            collectionId: 'a1b2c3d4e5f6g7h',
+            collection: 'apps',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -284,7 +284,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: true,
           options: {
-            collectionId: 'c1d2e3f4g5h6i7j',
+            collection: 'schemas',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -306,7 +306,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: false,
           options: {
-            collectionId: '_pb_users_auth_',
+            collection: 'users',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -338,7 +338,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: false,
           options: {
-            collectionId: 'a1b2c3d4e5f6g7h',
+            collection: 'apps',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -352,7 +352,7 @@ export const multiTenantSchema = {
           required: true,
           presentable: true,
           options: {
-            collectionId: 'c1d2e3f4g5h6i7j',
+            collection: 'schemas',
             cascadeDelete: false,
             minSelect: null,
             maxSelect: 1,
@@ -366,7 +366,7 @@ export const multiTenantSchema = {
           required: false,
           presentable: false,
           options: {
-            collectionId: 'd1e2f3g4h5i6j7k',
+            collection: 'pv_records',
             cascadeDelete: true,
             minSelect: null,
             maxSelect: 1,
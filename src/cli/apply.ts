@@ -110,6 +110,10 @@ program
   .command('all')
   .description('Apply all changes (safe + unsafe with confirmation)')
   .option('--force', 'Skip confirmation prompts')
+  .option(
+    '--confirm-assisted',
+    'Also apply assisted changes (backfill, dedupe)',
+  )
   .action(async (options) => {
     const spinner = ora('Analyzing schema changes...').start();
 
@@ -126,13 +130,17 @@ program
       const currentSchema = await pbClient.fetchCurrentSchema();
       const plan = SchemaDiff.buildDiffPlan(exampleSchema, currentSchema);
 
-      if (plan.safe.length === 0 && plan.unsafe.length === 0) {
+      if (
+        plan.safe.length === 0 &&
+        plan.assisted.length === 0 &&
+        plan.unsafe.length === 0
+      ) {
         spinner.succeed('No changes to apply');
         return;
       }
 
       spinner.succeed(
-        `Found ${plan.safe.length} safe and ${plan.unsafe.length} unsafe changes`,
+        `Found ${plan.safe.length} safe, ${plan.assisted.length} assisted and ${plan.unsafe.length} unsafe changes`,
       );
 
       // Show all changes
@@ -143,6 +151,25 @@ program
         });
       }
 
+      if (plan.assisted.length > 0) {
+        console.log(
+          chalk.cyan('\n🛠️  Assisted changes (rewrite existing records):'),
+        );
+        plan.assisted.forEach((op, index) => {
+          console.log(chalk.cyan(`  ${index + 1}. ${op.summary}`));
+        });
+      }
+
+      // Backfill and dedupe rewrite records, so they need their own flag
+      const assisted = options.confirmAssisted ? plan.assisted : [];
+      if (plan.assisted.length > 0 && !options.confirmAssisted) {
+        console.log(
+          chalk.yellow(
+            `\nSkipping ${plan.assisted.length} assisted changes; rerun with --confirm-assisted to apply them`,
+          ),
+        );
+      }
+
       if (plan.unsafe.length > 0) {
         console.log(chalk.red('\n⚠️  Unsafe changes (may cause data loss):'));
         plan.unsafe.forEach((op, index) => {
@@ -185,6 +212,24 @@ program
         safeSpinner.succeed(`Applied ${plan.safe.length} safe changes`);
       }
 
+      // Apply assisted changes, preparing records first
+      if (assisted.length > 0) {
+        const assistedSpinner = ora('Applying assisted changes...').start();
+
+        for (const operation of assisted) {
+          try {
+            await pbClient.applyOperation(operation);
+            console.log(chalk.cyan(`  🛠️  ${operation.summary}`));
+          } catch (error) {
+            assistedSpinner.fail(`Failed to apply: ${operation.summary}`);
+            console.error(chalk.red('Error:'), error);
+            process.exit(1);
+          }
+        }
+
+        assistedSpinner.succeed(`Applied ${assisted.length} assisted changes`);
+      }
+
       // Apply unsafe changes
       if (plan.unsafe.length > 0) {
         const unsafeSpinner = ora('Applying unsafe changes...').start();
@@ -232,7 +277,11 @@ program
 
       spinner.succeed('Schema analysis complete');
 
-      if (plan.safe.length === 0 && plan.unsafe.length === 0) {
+      if (
+        plan.safe.length === 0 &&
+        plan.assisted.length === 0 &&
+        plan.unsafe.length === 0
+      ) {
         console.log(chalk.green('✅ Schema is up to date'));
         return;
       }
@@ -244,6 +293,15 @@ program
         });
       }
 
+      if (plan.assisted.length > 0) {
+        console.log(
+          chalk.cyan(`\n🛠️  Assisted changes (${plan.assisted.length}):`),
+        );
+        plan.assisted.forEach((op, index) => {
+          console.log(chalk.cyan(`  ${index + 1}. ${op.summary}`));
+        });
+      }
+
       if (plan.unsafe.length > 0) {
         console.log(chalk.red(`\n⚠️  Unsafe changes (${plan.unsafe.length}):`));
         plan.unsafe.forEach((op, index) => {
@@ -14,9 +14,22 @@ import { pathToFileURL } from 'node:url';
 import { SchemaDiff } from '../utils/diff.js';
 import { PocketBaseClient } from '../utils/pocketbase.js';
 import { TypeGenerator } from '../utils/type-generator.js';
+import { VALIDATOR_KINDS } from '../utils/validator-generator.js';
+import { MigrationGenerator } from '../utils/migration-generator.js';
+import {
+  MigrationRunner,
+  type MigrationStatus,
+} from '../utils/migration-runner.js';
+import { PlanExecutor } from '../utils/plan-executor.js';
+import { SchemaRelations } from '../utils/relations.js';
+import { SchemaLint } from '../utils/schema-lint.js';
 import { credentialStore } from '../utils/credential-store.js';
 import { startDevServer } from '../dev-server.js';
 import { runInit } from './init.js';
+import type {
+  MigrationOperation,
+  SchemaDefinition,
+} from '../types/schema.js';
 // Dynamic import for schema
 let exampleSchema: any;
 import { getPocketVexConfig } from '../config/pocketvex-config.js';
@@ -55,22 +68,94 @@ async function loadSchema() {
 async function loadLocalSchemaFromProject(schemaPath: string) {
   try {
     const mod = await import(pathToFileURL(schemaPath).href);
-    return (mod as any).schema;
+    return (mod as any).schema ?? (mod as any).default;
   } catch (error) {
     throw new Error(`Failed to load local schema at ${schemaPath}: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-// Utility function to collect host and credentials
+// The project's schema module, in the configured schema directory
+function localSchemaPath(): string {
+  return path.join(
+    process.cwd(),
+    getPocketVexConfig().getSchemaDirectory(),
+    'schema.js',
+  );
+}
+
+// Load a schema from a live host ('remote' or a URL), a JSON snapshot or a
+// schema module; without a source, the project's local schema
+async function loadSchemaSource(
+  source: string | undefined,
+  globalOpts: any,
+): Promise<SchemaDefinition> {
+  if (!source) {
+    const schema = await loadLocalSchemaFromProject(localSchemaPath());
+    if (!schema || !Array.isArray(schema.collections)) {
+      throw new Error(
+        `No schema with a 'collections' array found in ${localSchemaPath()}`,
+      );
+    }
+    return schema;
+  }
+
+  if (source === 'remote' || /^https?:\/\//.test(source)) {
+    const credentials = await collectHostAndCredentials(
+      source === 'remote' ? globalOpts : { ...globalOpts, url: source },
+      { pickHost: source === 'remote' },
+    );
+    const client = new PocketBaseClient({
+      url: credentials.url,
+      adminEmail: credentials.email,
+      adminPassword: credentials.password,
+    });
+    await client.authenticate();
+    return client.fetchCurrentSchema();
+  }
+
+  const filePath = path.resolve(process.cwd(), source);
+  let schema: SchemaDefinition | undefined;
+  if (filePath.endsWith('.json')) {
+    schema = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } else {
+    schema = await loadLocalSchemaFromProject(filePath);
+  }
+
+  if (!schema || !Array.isArray(schema.collections)) {
+    throw new Error(`No schema with a 'collections' array found in ${source}`);
+  }
+  return schema;
+}
+
+// Print problems in the schema's API rules; returns whether any is an error
+function reportRuleIssues(schema: SchemaDefinition): boolean {
+  const issues = SchemaLint.lintRules(schema);
+  if (issues.length > 0) {
+    DemoUtils.printSection('Rule Problems');
+    DemoUtils.formatLintIssues(issues);
+  }
+  return SchemaLint.hasErrors(issues);
+}
+
+// Utility function to collect host and credentials. Status lines go to
+// stderr so commands printing JSON keep stdout clean, and nothing is asked
+// when stdin is not a terminal, e.g. in CI.
 async function collectHostAndCredentials(
   globalOpts: any,
+  options: { pickHost?: boolean } = {},
 ): Promise<{ url: string; email: string; password: string }> {
   let { url, email, password } = globalOpts;
+  const interactive = Boolean(process.stdin.isTTY);
 
   // First, ask for host selection if not provided or if it's the default
-  if (!url || url === 'http://127.0.0.1:8090') {
+  if (
+    interactive &&
+    options.pickHost !== false &&
+    (!url || url === 'http://127.0.0.1:8090')
+  ) {
     url = await DemoUtils.selectHost();
   }
+  url = url || 'http://127.0.0.1:8090';
 
   // Then, try to get cached credentials for the selected host
   if (!email || !password) {
@@ -78,10 +163,16 @@ async function collectHostAndCredentials(
     if (cached) {
       email = email || cached.email;
       password = password || cached.password;
-      console.log(chalk.gray('🔐 Using cached credentials'));
+      console.error(chalk.gray('🔐 Using cached credentials'));
     }
   }
 
+  if ((!email || !password) && !interactive) {
+    throw new Error(
+      `No credentials for ${url}: pass --email and --password, or run once in a terminal to cache them`,
+    );
+  }
+
   // If credentials are still missing, prompt for them
   if (!email || !password) {
     DemoUtils.printSection('PocketBase Credentials');
@@ -125,11 +216,11 @@ async function collectHostAndCredentials(
 
       // Only cache if connection succeeds
       await credentialStore.storeCredentials(url, email, password, 24); // 24 hours TTL
-      console.log(chalk.gray('💾 Credentials cached for 24 hours'));
+      console.error(chalk.gray('💾 Credentials cached for 24 hours'));
     } catch (error) {
       // Don't cache if connection fails - but don't throw, just return the credentials
       // The calling function will handle the connection test
-      console.log(
+      console.error(
         chalk.yellow(
           '⚠️  Connection test will be performed with these credentials',
         ),
@@ -269,7 +360,11 @@ program
       // Show differences
       const plan = SchemaDiff.buildDiffPlan(desiredSchema, currentSchema);
 
-      if (plan.safe.length > 0 || plan.unsafe.length > 0) {
+      if (
+        plan.safe.length > 0 ||
+        plan.assisted.length > 0 ||
+        plan.unsafe.length > 0
+      ) {
         console.log(chalk.blue('\n🔄 Required Changes:'));
         console.log(chalk.gray('───────────────────'));
 
@@ -280,6 +375,13 @@ program
           });
         }
 
+        if (plan.assisted.length > 0) {
+          console.log(chalk.cyan('🛠️  Assisted Operations:'));
+          plan.assisted.forEach((op: any, index: number) => {
+            console.log(chalk.gray(`   ${index + 1}. ${op.summary}`));
+          });
+        }
+
         if (plan.unsafe.length > 0) {
           console.log(chalk.yellow('⚠️  Unsafe Operations:'));
           plan.unsafe.forEach((op: any, index: number) => {
@@ -313,23 +415,50 @@ const schemaCmd = program
 schemaCmd
   .command('diff')
   .description('Show differences between desired and current schema')
-  .option('--current <path>', 'Path to current schema file')
-  .option('--desired <path>', 'Path to desired schema file')
+  .option(
+    '--current <source>',
+    "Current schema: 'remote', a PocketBase URL, a snapshot (.json) or a schema module",
+    'remote',
+  )
+  .option(
+    '--desired <source>',
+    'Desired schema: a snapshot (.json) or a schema module (default: local schema)',
+  )
+  .option('--json', 'Print the migration plan as JSON')
+  .option('--exit-code', 'Exit with code 1 when the schemas differ')
   .action(async (options) => {
+    const globalOpts = program.opts();
+
     try {
-      DemoUtils.printHeader('Schema Diff', 'Comparing schemas');
+      if (!options.json) {
+        DemoUtils.printHeader('Schema Diff', 'Comparing schemas');
+      }
 
-      // For now, use the example schema as desired
-      const desired = await loadSchema();
-      const current = await loadSchema(); // In real usage, this would be fetched from PocketBase
+      const desired = await loadSchemaSource(options.desired, globalOpts);
+      const current = await loadSchemaSource(options.current, globalOpts);
+      if (!options.json) {
+        reportRuleIssues(desired);
+      }
 
       const plan = SchemaDiff.buildDiffPlan(desired, current);
+      const hasChanges =
+        plan.safe.length > 0 ||
+        plan.assisted.length > 0 ||
+        plan.unsafe.length > 0;
 
-      DemoUtils.printSection('Migration Plan');
-      DemoUtils.formatMigrationPlan(plan);
+      if (options.json) {
+        console.log(JSON.stringify(plan, null, 2));
+      } else {
+        DemoUtils.printSection('Migration Plan');
+        DemoUtils.formatMigrationPlan(plan);
 
-      if (plan.safe.length === 0 && plan.unsafe.length === 0) {
-        DemoUtils.printSuccess('No changes needed - schemas are identical');
+        if (!hasChanges) {
+          DemoUtils.printSuccess('No changes needed - schemas are identical');
+        }
+      }
+
+      if (options.exitCode && hasChanges) {
+        process.exit(1);
       }
     } catch (error) {
       DemoUtils.printError(
@@ -367,7 +496,9 @@ schemaCmd
       const outDir = path.isAbsolute(schemaDir) ? schemaDir : path.join(process.cwd(), schemaDir);
       await fs.mkdir(outDir, { recursive: true });
       const outFile = path.join(outDir, 'schema.js');
-      const content = `// Generated by pocketvex schema pull\nexport const schema = ${JSON.stringify(currentSchema, null, 2)};\n`;
+      // Relations are written by collection name so the file works on any host
+      const pulled = SchemaRelations.toNames(currentSchema);
+      const content = `// Generated by pocketvex schema pull\nexport const schema = ${JSON.stringify(pulled, null, 2)};\n`;
       await fs.writeFile(outFile, content, 'utf8');
       console.log(chalk.green(`✔ Wrote ${path.relative(process.cwd(), outFile)}`));
     } catch (error) {
@@ -381,13 +512,16 @@ schemaCmd
   .command('push')
   .description('Apply local schema (pocketvex/schema/schema.js) to PocketBase (local wins)')
   .option('--force', 'Skip confirmation prompts')
+  .option('--resume', 'Continue the last failed push, skipping completed steps')
+  .option('--rollback-on-failure', 'Revert completed steps if an operation fails')
+  .option('--confirm-assisted', 'Also apply assisted changes (backfill, dedupe)')
   .action(async (options) => {
     const globalOpts = program.opts();
     try {
-      const { getPocketVexConfig } = await import('../config/pocketvex-config.js');
-      const cfg = getPocketVexConfig();
-      const schemaPath = path.join(process.cwd(), cfg.getSchemaDirectory(), 'schema.js');
-      const local = await loadLocalSchemaFromProject(schemaPath);
+      const local = await loadLocalSchemaFromProject(localSchemaPath());
+      if (reportRuleIssues(local)) {
+        throw new Error('Fix the rule errors above before pushing');
+      }
 
       const credentials = await collectHostAndCredentials(globalOpts);
       const spinner = DemoUtils.createSpinner('Connecting to PocketBase...');
@@ -396,16 +530,45 @@ schemaCmd
       await client.authenticate();
       spinner.succeed('Connected');
 
-      const remote = await client.fetchCurrentSchema();
-      const plan = SchemaDiff.buildDiffPlan(local, remote);
+      const executor = new PlanExecutor(client);
+      const resumable = options.resume
+        ? await executor.findResumable('schema push')
+        : null;
 
-      if (plan.safe.length === 0 && plan.unsafe.length === 0) {
-        DemoUtils.printSuccess('Remote schema already matches local');
-        return;
-      }
+      let operations: MigrationOperation[];
+      if (resumable) {
+        operations = resumable.operations!;
+        DemoUtils.printInfo(
+          `Resuming schema push started ${resumable.startedAt} (${resumable.steps.length}/${operations.length} steps done)`,
+        );
+      } else {
+        const remote = await client.fetchCurrentSchema();
+        const plan = SchemaDiff.buildDiffPlan(local, remote);
+
+        if (
+          plan.safe.length === 0 &&
+          plan.assisted.length === 0 &&
+          plan.unsafe.length === 0
+        ) {
+          DemoUtils.printSuccess('Remote schema already matches local');
+          return;
+        }
 
-      DemoUtils.printSection('Planned Changes');
-      DemoUtils.formatMigrationPlan(plan);
+        DemoUtils.printSection('Planned Changes');
+        DemoUtils.formatMigrationPlan(plan);
+
+        if (plan.assisted.length > 0 && !options.confirmAssisted) {
+          DemoUtils.printWarning(
+            `Skipping ${plan.assisted.length} assisted changes; rerun with --confirm-assisted to apply them`,
+          );
+        }
+        operations = [
+          ...plan.safe,
+          ...(options.confirmAssisted ? plan.assisted : []),
+          ...plan.unsafe,
+        ];
+        if (operations.length === 0) return;
+      }
 
       const proceed = options.force || (await DemoUtils.askConfirmation('Apply these changes to PocketBase?', false));
       if (!proceed) return;
@@ -413,13 +576,18 @@ schemaCmd
       const applySpinner = DemoUtils.createSpinner('Applying changes...');
       applySpinner.start();
       try {
-        for (const op of [...plan.safe, ...plan.unsafe]) {
-          await client.applyOperation(op);
-          await new Promise((r) => setTimeout(r, 200));
-        }
+        await executor.execute(operations, {
+          target: 'schema push',
+          resume: Boolean(resumable),
+          rollbackOnFailure: options.rollbackOnFailure,
+          onStep: (label, completed, total) => {
+            applySpinner.text = `[${completed}/${total}] ${label}`;
+          },
+        });
         applySpinner.succeed('Schema push complete');
       } catch (err) {
         DemoUtils.handleOperationError(err, applySpinner, 'apply schema changes');
+        process.exit(1);
       }
     } catch (error) {
       DemoUtils.printError(`Schema push failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -449,6 +617,7 @@ schemaCmd
   .command('apply')
   .description('Apply schema changes to PocketBase')
   .option('--safe-only', 'Apply only safe changes')
+  .option('--confirm-assisted', 'Also apply assisted changes (backfill, dedupe)')
   .action(async (options) => {
     const globalOpts = program.opts();
 
@@ -468,8 +637,13 @@ schemaCmd
       await client.authenticate();
       spinner.succeed('Connected successfully!');
 
+      const desiredSchema = await loadSchema();
+      if (reportRuleIssues(desiredSchema)) {
+        throw new Error('Fix the rule errors above before applying');
+      }
+
       const currentSchema = await client.fetchCurrentSchema();
-      const plan = SchemaDiff.buildDiffPlan(await loadSchema(), currentSchema);
+      const plan = SchemaDiff.buildDiffPlan(desiredSchema, currentSchema);
 
       if (options.safeOnly) {
         if (plan.safe.length === 0) {
@@ -489,9 +663,9 @@ schemaCmd
           applySpinner.start();
 
           try {
-            for (const operation of plan.safe) {
-              await client.applyOperation(operation);
-            }
+            await new PlanExecutor(client).execute(plan.safe, {
+              target: 'schema apply',
+            });
             applySpinner.succeed('Changes applied successfully!');
             DemoUtils.printSuccess('Schema apply complete!');
           } catch (error) {
@@ -508,32 +682,47 @@ schemaCmd
         DemoUtils.printSection('All Operations');
         DemoUtils.formatMigrationPlan(plan);
 
-        if (plan.safe.length > 0) {
+        // Assisted changes rewrite existing records, so they need the flag
+        const operations = options.confirmAssisted
+          ? [...plan.safe, ...plan.assisted]
+          : plan.safe;
+        const label = options.confirmAssisted ? 'safe and assisted' : 'safe';
+
+        if (operations.length > 0) {
           const proceed =
             globalOpts.force ||
-            (await DemoUtils.askConfirmation('Apply safe changes?', false));
+            (await DemoUtils.askConfirmation(`Apply ${label} changes?`, false));
 
           if (proceed) {
             const applySpinner = DemoUtils.createSpinner(
-              'Applying safe changes...',
+              `Applying ${label} changes...`,
             );
             applySpinner.start();
 
             try {
-              for (const operation of plan.safe) {
-                await client.applyOperation(operation);
-              }
-              applySpinner.succeed('Safe changes applied successfully!');
+              await new PlanExecutor(client).execute(operations, {
+                target: 'schema apply',
+              });
+              applySpinner.succeed(`Applied ${label} changes successfully!`);
             } catch (error) {
               DemoUtils.handleOperationError(
                 error,
                 applySpinner,
-                'apply safe changes',
+                `apply ${label} changes`,
               );
             }
           }
         }
 
+        if (plan.assisted.length > 0 && !options.confirmAssisted) {
+          DemoUtils.printWarning(
+            `${plan.assisted.length} assisted changes were not applied`,
+          );
+          DemoUtils.printInfo(
+            'Run "pocketvex schema apply --confirm-assisted" to apply them',
+          );
+        }
+
         if (plan.unsafe.length > 0) {
           DemoUtils.printWarning('Unsafe operations require migration files');
           DemoUtils.printInfo(
@@ -565,32 +754,51 @@ migrateCmd
   .option(
     '-o, --output <path>',
     'Output directory for migration files',
-    './pb_migrations',
+    getPocketVexConfig().getMigrationsDirectory(),
   )
+  .option('-n, --name <name>', 'Migration name', 'unsafe_changes')
   .action(async (options) => {
+    const globalOpts = program.opts();
+
     try {
       DemoUtils.printHeader('Migration Generation', 'Creating migration files');
 
+      const credentials = await collectHostAndCredentials(globalOpts);
       const spinner = DemoUtils.createSpinner('Analyzing schema changes...');
       spinner.start();
 
-      // In real usage, this would compare with current PocketBase schema
-      const current = await loadSchema();
+      const client = new PocketBaseClient({
+        url: credentials.url,
+        adminEmail: credentials.email,
+        adminPassword: credentials.password,
+      });
+      await client.authenticate();
+
+      const current = await client.fetchCurrentSchema();
       const desired = await loadSchema();
       const plan = SchemaDiff.buildDiffPlan(desired, current);
 
       spinner.succeed('Schema analysis complete!');
 
-      if (plan.unsafe.length === 0) {
-        DemoUtils.printInfo('No unsafe operations found - no migration needed');
+      // Assisted operations carry their backfill and dedupe strategies, which
+      // the generated steps run before changing the schema
+      const operations = [...plan.assisted, ...plan.unsafe];
+      if (operations.length === 0) {
+        DemoUtils.printInfo(
+          'No assisted or unsafe operations found - no migration needed',
+        );
         return;
       }
 
-      DemoUtils.printSection('Unsafe Operations');
-      DemoUtils.formatMigrationPlan({ safe: [], unsafe: plan.unsafe });
+      DemoUtils.printSection('Assisted and Unsafe Operations');
+      DemoUtils.formatMigrationPlan({
+        safe: [],
+        assisted: plan.assisted,
+        unsafe: plan.unsafe,
+      });
 
       const proceed =
-        program.opts().force ||
+        globalOpts.force ||
         (await DemoUtils.askConfirmation('Generate migration files?', false));
 
       if (proceed) {
@@ -600,8 +808,21 @@ migrateCmd
         generateSpinner.start();
 
         try {
-          // In real implementation, this would generate actual migration files
+          const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+          const outFile = path.join(
+            options.output,
+            `${timestamp}_${options.name}.js`,
+          );
+          const content = MigrationGenerator.generate(operations, {
+            name: options.name,
+            generatedBy: 'pocketvex migrate generate',
+          });
+
+          await fs.mkdir(options.output, { recursive: true });
+          await fs.writeFile(outFile, content, 'utf8');
+
           generateSpinner.succeed('Migration files generated successfully!');
+          console.log(chalk.gray(`  File: ${outFile}`));
           DemoUtils.printSuccess('Migration generation complete!');
         } catch (error) {
           DemoUtils.handleOperationError(
@@ -623,22 +844,116 @@ migrateCmd
     }
   });
 
+// Connect to the selected host and open its migration ledger
+async function createMigrationRunner(globalOpts: any, dir: string) {
+  const credentials = await collectHostAndCredentials(globalOpts);
+  const client = new PocketBaseClient({
+    url: credentials.url,
+    adminEmail: credentials.email,
+    adminPassword: credentials.password,
+  });
+  await client.authenticate();
+  return { runner: new MigrationRunner(client, dir), url: credentials.url };
+}
+
+// Stop when applied migration files were edited, unless --allow-modified
+function checkModifiedMigrations(
+  modified: MigrationStatus[],
+  allowModified: boolean,
+) {
+  if (modified.length === 0) return;
+
+  const names = modified.map((entry) => `  - ${entry.name}`).join('\n');
+  if (allowModified) {
+    DemoUtils.printWarning(
+      `Applied migrations were modified after they ran:\n${names}`,
+    );
+    return;
+  }
+
+  DemoUtils.printError(
+    `Applied migrations were modified after they ran:\n${names}`,
+  );
+  DemoUtils.printInfo(
+    'Restore the original files, or pass --allow-modified to continue anyway',
+  );
+  process.exit(1);
+}
+
 // Run migrations
 migrateCmd
   .command('up')
   .description('Run pending migrations')
   .option('-n, --number <count>', 'Number of migrations to run')
+  .option(
+    '-d, --dir <path>',
+    'Migrations directory',
+    getPocketVexConfig().getMigrationsDirectory(),
+  )
+  .option(
+    '--allow-modified',
+    'Continue even if applied migration files were edited',
+  )
+  .option(
+    '--resume',
+    'Continue a failed migration, skipping its completed ctx operations',
+  )
+  .option(
+    '--rollback-on-failure',
+    'Revert the completed ctx operations of a migration that fails',
+  )
   .action(async (options) => {
     try {
       DemoUtils.printHeader('Migration Up', 'Running pending migrations');
 
+      const { runner, url } = await createMigrationRunner(
+        program.opts(),
+        options.dir,
+      );
+
+      checkModifiedMigrations(
+        await runner.modified(),
+        Boolean(options.allowModified),
+      );
+
       const spinner = DemoUtils.createSpinner(
         'Checking for pending migrations...',
       );
       spinner.start();
 
-      // In real implementation, this would check for pending migrations
-      spinner.succeed('No pending migrations found');
+      const limit = options.number ? parseInt(options.number, 10) : undefined;
+      const pending = await runner.pending(limit);
+
+      if (pending.length === 0) {
+        spinner.succeed(`No pending migrations on ${url}`);
+        return;
+      }
+      spinner.succeed(`Found ${pending.length} pending migrations on ${url}`);
+
+      for (const migration of pending) {
+        const migrationSpinner = DemoUtils.createSpinner(
+          `Running ${migration.name}...`,
+        );
+        migrationSpinner.start();
+
+        try {
+          const durationMs = await runner.apply(migration, {
+            resume: options.resume,
+            rollbackOnFailure: options.rollbackOnFailure,
+          });
+          migrationSpinner.succeed(
+            `Applied ${migration.name} (${durationMs}ms)`,
+          );
+        } catch (error) {
+          DemoUtils.handleOperationError(
+            error,
+            migrationSpinner,
+            `apply ${migration.name}`,
+          );
+          process.exit(1);
+        }
+      }
+
       DemoUtils.printSuccess('Migration up complete!');
     } catch (error) {
       DemoUtils.printError(
@@ -655,15 +970,47 @@ migrateCmd
   .command('down')
   .description('Rollback migrations')
   .option('-n, --number <count>', 'Number of migrations to rollback', '1')
+  .option(
+    '-d, --dir <path>',
+    'Migrations directory',
+    getPocketVexConfig().getMigrationsDirectory(),
+  )
   .action(async (options) => {
     try {
       DemoUtils.printHeader('Migration Down', 'Rolling back migrations');
 
-      const spinner = DemoUtils.createSpinner('Rolling back migrations...');
-      spinner.start();
+      const { runner, url } = await createMigrationRunner(
+        program.opts(),
+        options.dir,
+      );
+
+      const count = parseInt(options.number, 10) || 1;
+      const targets = await runner.applied(count);
+
+      if (targets.length === 0) {
+        DemoUtils.printInfo(`No applied migrations on ${url}`);
+        return;
+      }
+
+      for (const entry of targets) {
+        const spinner = DemoUtils.createSpinner(
+          `Rolling back ${entry.name}...`,
+        );
+        spinner.start();
+
+        try {
+          await runner.revert(entry);
+          spinner.succeed(`Rolled back ${entry.name}`);
+        } catch (error) {
+          DemoUtils.handleOperationError(
+            error,
+            spinner,
+            `roll back ${entry.name}`,
+          );
+          process.exit(1);
+        }
+      }
 
-      // In real implementation, this would rollback migrations
-      spinner.succeed('Migrations rolled back successfully');
       DemoUtils.printSuccess('Migration down complete!');
     } catch (error) {
       DemoUtils.printError(
@@ -679,20 +1026,68 @@ migrateCmd
 migrateCmd
   .command('status')
   .description('Show migration status')
-  .action(async () => {
+  .option(
+    '-d, --dir <path>',
+    'Migrations directory',
+    getPocketVexConfig().getMigrationsDirectory(),
+  )
+  .option(
+    '--allow-modified',
+    'Do not fail when applied migration files were edited',
+  )
+  .action(async (options) => {
     try {
       DemoUtils.printHeader('Migration Status', 'Current migration state');
 
+      const { runner, url } = await createMigrationRunner(
+        program.opts(),
+        options.dir,
+      );
+
       const spinner = DemoUtils.createSpinner('Checking migration status...');
       spinner.start();
-
-      // In real implementation, this would check migration status
+      const entries = await runner.status();
       spinner.succeed('Migration status checked');
 
-      DemoUtils.printSection('Status');
-      console.log(chalk.gray('Current version: 1.0.0'));
-      console.log(chalk.gray('Pending migrations: 0'));
-      console.log(chalk.gray('Applied migrations: 0'));
+      DemoUtils.printSection(`Status (${url})`);
+      if (entries.length === 0) {
+        console.log(chalk.gray(`No migrations found in ${options.dir}`));
+      }
+      for (const entry of entries) {
+        if (entry.modified) {
+          console.log(
+            chalk.red(
+              `  ✏️  ${entry.name} (applied ${entry.applied!.appliedAt}, modified since)`,
+            ),
+          );
+        } else if (entry.state === 'applied') {
+          console.log(
+            chalk.green(
+              `  ✅ ${entry.name} (applied ${entry.applied!.appliedAt}, ${entry.applied!.durationMs}ms)`,
+            ),
+          );
+        } else if (entry.state === 'pending') {
+          console.log(chalk.yellow(`  ⏳ ${entry.name} (pending)`));
+        } else {
+          console.log(
+            chalk.red(`  ⚠️  ${entry.name} (applied, file missing)`),
+          );
+        }
+      }
+
+      const count = (state: string) =>
+        entries.filter((entry) => entry.state === state).length;
+      console.log(chalk.gray(`\nApplied migrations: ${count('applied')}`));
+      console.log(chalk.gray(`Pending migrations: ${count('pending')}`));
+      if (count('missing') > 0) {
+        console.log(chalk.gray(`Missing files: ${count('missing')}`));
+      }
+      console.log();
+
+      checkModifiedMigrations(
+        entries.filter((entry) => entry.modified),
+        Boolean(options.allowModified),
+      );
 
       DemoUtils.printSuccess('Migration status complete!');
     } catch (error) {
@@ -705,6 +1100,51 @@ migrateCmd
     }
   });
 
+// Lint the schema without contacting PocketBase
+program
+  .command('lint')
+  .description('Check a schema for mistakes PocketBase would reject on apply')
+  .option(
+    '--schema <source>',
+    'Schema module or snapshot (.json) to check (default: local schema)',
+  )
+  .option('--json', 'Print the issues as JSON')
+  .action(async (options) => {
+    try {
+      const file = path.resolve(
+        process.cwd(),
+        options.schema ??
+          path.join(getPocketVexConfig().getSchemaDirectory(), 'schema.js'),
+      );
+      const schema = await loadSchemaSource(file, program.opts());
+      const content = await fs.readFile(file, 'utf8').catch(() => undefined);
+      const issues = SchemaLint.lint(schema, {
+        file: path.relative(process.cwd(), file),
+        content,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(issues, null, 2));
+      } else if (issues.length === 0) {
+        DemoUtils.printSuccess('No schema issues found');
+      } else {
+        DemoUtils.printSection('Schema Lint');
+        DemoUtils.formatLintIssues(issues);
+      }
+
+      if (SchemaLint.hasErrors(issues)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      DemoUtils.printError(
+        `Schema lint failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+      process.exit(1);
+    }
+  });
+
 /**
  * Type Generation Commands
  */
@@ -719,36 +1159,82 @@ typesCmd
   .option(
     '-o, --output <path>',
     'Output directory for generated types',
-    './generated',
+    getPocketVexConfig().getGeneratedDirectory(),
+  )
+  .option(
+    '--schema <source>',
+    "Schema to generate from: 'remote', a PocketBase URL, a snapshot (.json) or a schema module (default: local schema)",
+  )
+  .option(
+    '--check',
+    'Exit with code 1 when generated files are missing or out of date, without writing them',
+  )
+  .option(
+    '--validators <kind>',
+    `Also generate runtime validators (${VALIDATOR_KINDS.join(', ')})`,
   )
   .action(async (options) => {
     try {
       DemoUtils.printHeader('Type Generation', 'Generating TypeScript types');
 
+      if (options.validators && !VALIDATOR_KINDS.includes(options.validators)) {
+        throw new Error(
+          `Unsupported validators '${options.validators}' (supported: ${VALIDATOR_KINDS.join(', ')})`,
+        );
+      }
+
+      const schema = await loadSchemaSource(options.schema, program.opts());
+      const files = TypeGenerator.generateFiles(schema, {
+        validators: options.validators,
+      });
+      const outDir = path.resolve(process.cwd(), options.output);
+
+      if (options.check) {
+        const stale: string[] = [];
+        for (const [name, content] of Object.entries(files)) {
+          const existing = await fs
+            .readFile(path.join(outDir, name), 'utf8')
+            .catch(() => undefined);
+          if (existing !== content) stale.push(name);
+        }
+
+        if (stale.length > 0) {
+          DemoUtils.printError(
+            `Generated files are out of date: ${stale.join(', ')}`,
+          );
+          console.log(
+            chalk.gray('Run "pocketvex types generate" to update them'),
+          );
+          process.exit(1);
+        }
+        DemoUtils.printSuccess('Generated files are up to date');
+        return;
+      }
+
       const spinner = DemoUtils.createSpinner('Generating types...');
       spinner.start();
 
-      const typesContent = TypeGenerator.generateTypes(await loadSchema());
-      // In a real implementation, this would write to files
-      console.log(
-        chalk.gray(
-          'Types generated (content length:',
-          typesContent.length,
-          'characters)',
-        ),
-      );
+      await fs.mkdir(outDir, { recursive: true });
+      for (const [name, content] of Object.entries(files)) {
+        await fs.writeFile(path.join(outDir, name), content);
+      }
 
       spinner.succeed('Types generated successfully!');
 
+      const descriptions: Record<string, string> = {
+        'types.ts': 'Collection types, CRUD interfaces',
+        'api-client.ts': 'Typed API client',
+        'rules.ts': 'Typed rule builders',
+        'validators.ts': 'Zod validators for create and update input',
+      };
       DemoUtils.printSection('Generated Files');
-      console.log(
-        chalk.gray(
-          `  - ${options.output}/types.ts (Collection types, CRUD interfaces)`,
-        ),
-      );
-      console.log(
-        chalk.gray(`  - ${options.output}/api-client.ts (Typed API client)`),
-      );
+      for (const name of Object.keys(files)) {
+        console.log(
+          chalk.gray(
+            `  - ${path.join(options.output, name)} (${descriptions[name]})`,
+          ),
+        );
+      }
 
       DemoUtils.printSuccess('Type generation complete!');
     } catch (error) {
@@ -832,17 +1318,17 @@ devCmd
             applySpinner.start();
 
             try {
-              // Actually apply the operations with delays to avoid rate limits
+              // One round trip per collection keeps large schemas under rate limits
               let successCount = 0;
               let failureCount = 0;
+              const executor = new PlanExecutor(client);
 
-              for (let i = 0; i < plan.safe.length; i++) {
-                const operation = plan.safe[i];
+              for (const batch of PlanExecutor.batchOperations(plan.safe)) {
                 try {
-                  await client.applyOperation(operation);
-                  successCount++;
+                  await executor.applyBatch(batch);
+                  successCount += batch.steps.length;
                 } catch (error) {
-                  console.log(chalk.red(`  ❌ Failed: ${operation.summary}`));
+                  console.log(chalk.red(`  ❌ Failed: ${batch.label}`));
                   console.log(
                     chalk.gray(
                       `     Error: ${
@@ -850,12 +1336,7 @@ devCmd
                       }`,
                     ),
                   );
-                  failureCount++;
-                }
-
-                // Add a delay between operations to avoid rate limits
-                if (i < plan.safe.length - 1) {
-                  await new Promise((resolve) => setTimeout(resolve, 500));
+                  failureCount += batch.steps.length;
                 }
               }
 
@@ -1200,6 +1681,9 @@ program
     console.log(chalk.gray('Available commands:'));
     console.log(chalk.gray('  schema diff          # Show schema differences'));
     console.log(chalk.gray('  schema apply         # Apply schema changes'));
+    console.log(
+      chalk.gray('  lint                 # Check the schema for mistakes'),
+    );
     console.log(
       chalk.gray('  migrate generate     # Generate migration files'),
     );
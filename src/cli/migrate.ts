@@ -7,10 +7,16 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { readdir, readFile, writeFile } from 'fs/promises';
+import { writeFile } from 'fs/promises';
 import { join } from 'path';
 import { SchemaDiff } from '../utils/diff.js';
 import { PocketBaseClient } from '../utils/pocketbase.js';
+import { MigrationGenerator } from '../utils/migration-generator.js';
+import {
+  MigrationRunner,
+  type MigrationStatus,
+} from '../utils/migration-runner.js';
+import type { MigrationPlan } from '../types/schema.js';
 import { schema as exampleSchema } from '../../pocketvex/schema/example.schema.ts';
 
 const program = new Command();
@@ -48,7 +54,11 @@ program
       const currentSchema = await pbClient.fetchCurrentSchema();
       const plan = SchemaDiff.buildDiffPlan(exampleSchema, currentSchema);
 
-      if (plan.safe.length === 0 && plan.unsafe.length === 0) {
+      if (
+        plan.safe.length === 0 &&
+        plan.assisted.length === 0 &&
+        plan.unsafe.length === 0
+      ) {
         spinner.succeed('No changes detected');
         return;
       }
@@ -64,8 +74,20 @@ program
 
       console.log(chalk.green(`\n📊 Migration Summary:`));
       console.log(chalk.green(`  Safe operations: ${plan.safe.length}`));
+      console.log(
+        chalk.yellow(`  Assisted operations: ${plan.assisted.length}`),
+      );
       console.log(chalk.red(`  Unsafe operations: ${plan.unsafe.length}`));
 
+      if (plan.assisted.length > 0) {
+        console.log(
+          chalk.yellow(`\n🛠️  Assisted operations prepare existing records:`),
+        );
+        plan.assisted.forEach((op) => {
+          console.log(chalk.yellow(`  - ${op.summary}`));
+        });
+      }
+
       if (plan.unsafe.length > 0) {
         console.log(
           chalk.yellow(`\n⚠️  Unsafe operations require manual review:`),
@@ -81,6 +103,43 @@ program
     }
   });
 
+/**
+ * Connect to PocketBase using environment credentials
+ */
+async function connect() {
+  const config = {
+    url: process.env.PB_URL || 'http://127.0.0.1:8090',
+    adminEmail: process.env.PB_ADMIN_EMAIL || 'admin@example.com',
+    adminPassword: process.env.PB_ADMIN_PASS || 'admin123',
+  };
+
+  const pbClient = new PocketBaseClient(config);
+  await pbClient.authenticate();
+  return pbClient;
+}
+
+/**
+ * Report applied migrations edited after they ran; exits unless allowed
+ */
+function reportModified(modified: MigrationStatus[], allowModified: boolean) {
+  if (modified.length === 0) return;
+
+  const color = allowModified ? chalk.yellow : chalk.red;
+  console.log(color('\n⚠️  Applied migrations were modified after they ran:'));
+  modified.forEach((entry) => {
+    console.log(color(`  - ${entry.name}`));
+  });
+
+  if (!allowModified) {
+    console.log(
+      chalk.gray(
+        'Restore the original files, or pass --allow-modified to continue anyway',
+      ),
+    );
+    process.exit(1);
+  }
+}
+
 /**
  * Run pending migrations
  */
@@ -88,19 +147,42 @@ program
   .command('up')
   .description('Run pending migrations')
   .option('-d, --dir <path>', 'Migrations directory', './pb_migrations')
+  .option('-n, --number <count>', 'Number of migrations to run')
   .option('--dry-run', 'Show what would be executed without running')
+  .option(
+    '--allow-modified',
+    'Continue even if applied migration files were edited',
+  )
+  .option(
+    '--resume',
+    'Continue a failed migration, skipping its completed ctx steps',
+  )
+  .option(
+    '--rollback-on-failure',
+    'Revert the completed ctx steps of a migration that fails',
+  )
   .action(async (options) => {
     const spinner = ora('Loading migrations...').start();
 
     try {
-      const migrations = await loadMigrations(options.dir);
+      const runner = new MigrationRunner(await connect(), options.dir);
+
+      const modified = await runner.modified();
+      if (modified.length > 0) {
+        spinner.stop();
+        reportModified(modified, Boolean(options.allowModified));
+        spinner.start();
+      }
+
+      const limit = options.number ? parseInt(options.number, 10) : undefined;
+      const migrations = await runner.pending(limit);
 
       if (migrations.length === 0) {
-        spinner.succeed('No migrations found');
+        spinner.succeed('No pending migrations');
         return;
       }
 
-      spinner.succeed(`Found ${migrations.length} migrations`);
+      spinner.succeed(`Found ${migrations.length} pending migrations`);
 
       if (options.dryRun) {
         console.log(chalk.yellow('\n🔍 Dry run - would execute:'));
@@ -110,21 +192,17 @@ program
         return;
       }
 
-      const config = {
-        url: process.env.PB_URL || 'http://127.0.0.1:8090',
-        adminEmail: process.env.PB_ADMIN_EMAIL || 'admin@example.com',
-        adminPassword: process.env.PB_ADMIN_PASS || 'admin123',
-      };
-
-      const pbClient = new PocketBaseClient(config);
-      await pbClient.authenticate();
-
       for (const migration of migrations) {
         const migrationSpinner = ora(`Running ${migration.name}...`).start();
 
         try {
-          await migration.up(pbClient.pb);
-          migrationSpinner.succeed(`Completed ${migration.name}`);
+          const durationMs = await runner.apply(migration, {
+            resume: options.resume,
+            rollbackOnFailure: options.rollbackOnFailure,
+          });
+          migrationSpinner.succeed(
+            `Completed ${migration.name} (${durationMs}ms)`,
+          );
         } catch (error) {
           migrationSpinner.fail(`Failed ${migration.name}`);
           console.error(chalk.red('Error:'), error);
@@ -141,60 +219,53 @@ program
   });
 
 /**
- * Rollback the last migration
+ * Rollback applied migrations
  */
 program
   .command('down')
-  .description('Rollback the last migration')
+  .description('Rollback the last applied migrations')
   .option('-d, --dir <path>', 'Migrations directory', './pb_migrations')
+  .option('-n, --number <count>', 'Number of migrations to rollback', '1')
   .option('--dry-run', 'Show what would be rolled back without running')
   .action(async (options) => {
     const spinner = ora('Loading migrations...').start();
 
     try {
-      const migrations = await loadMigrations(options.dir);
+      const runner = new MigrationRunner(await connect(), options.dir);
+      const targets = await runner.applied(parseInt(options.number, 10) || 1);
 
-      if (migrations.length === 0) {
-        spinner.succeed('No migrations found');
+      if (targets.length === 0) {
+        spinner.succeed('No applied migrations to rollback');
         return;
       }
-
-      const lastMigration = migrations[migrations.length - 1];
-      if (!lastMigration) {
-        spinner.succeed('No migrations found to rollback');
-        return;
-      }
-      spinner.succeed(`Found migration to rollback: ${lastMigration.name}`);
+      spinner.succeed(
+        `Found ${targets.length} migrations to rollback: ${targets
+          .map((entry) => entry.name)
+          .join(', ')}`,
+      );
 
       if (options.dryRun) {
         console.log(chalk.yellow('\n🔍 Dry run - would rollback:'));
-        console.log(chalk.gray(`  - ${lastMigration.name}`));
+        targets.forEach((entry) => {
+          console.log(chalk.gray(`  - ${entry.name}`));
+        });
         return;
       }
 
-      const config = {
-        url: process.env.PB_URL || 'http://127.0.0.1:8090',
-        adminEmail: process.env.PB_ADMIN_EMAIL || 'admin@example.com',
-        adminPassword: process.env.PB_ADMIN_PASS || 'admin123',
-      };
-
-      const pbClient = new PocketBaseClient(config);
-      await pbClient.authenticate();
+      for (const entry of targets) {
+        const migrationSpinner = ora(`Rolling back ${entry.name}...`).start();
 
-      const migrationSpinner = ora(
-        `Rolling back ${lastMigration.name}...`,
-      ).start();
-
-      try {
-        await lastMigration.down(pbClient.pb);
-        migrationSpinner.succeed(`Rolled back ${lastMigration.name}`);
-      } catch (error) {
-        migrationSpinner.fail(`Failed to rollback ${lastMigration.name}`);
-        console.error(chalk.red('Error:'), error);
-        process.exit(1);
+        try {
+          await runner.revert(entry);
+          migrationSpinner.succeed(`Rolled back ${entry.name}`);
+        } catch (error) {
+          migrationSpinner.fail(`Failed to rollback ${entry.name}`);
+          console.error(chalk.red('Error:'), error);
+          process.exit(1);
+        }
       }
 
-      console.log(chalk.green('\n✅ Migration rolled back successfully'));
+      console.log(chalk.green('\n✅ Migrations rolled back successfully'));
     } catch (error) {
       spinner.fail('Failed to rollback migration');
       console.error(chalk.red('Error:'), error);
@@ -209,26 +280,40 @@ program
   .command('status')
   .description('Show migration status')
   .option('-d, --dir <path>', 'Migrations directory', './pb_migrations')
+  .option(
+    '--allow-modified',
+    'Do not fail when applied migration files were edited',
+  )
   .action(async (options) => {
     const spinner = ora('Loading migrations...').start();
 
     try {
-      const migrations = await loadMigrations(options.dir);
+      const runner = new MigrationRunner(await connect(), options.dir);
+      const entries = await runner.status();
 
-      if (migrations.length === 0) {
+      if (entries.length === 0) {
         spinner.succeed('No migrations found');
         return;
       }
 
-      spinner.succeed(`Found ${migrations.length} migrations`);
+      spinner.succeed(`Found ${entries.length} migrations`);
 
       console.log(chalk.blue('\n📋 Migration Status:'));
-      migrations.forEach((migration, index) => {
-        const status = chalk.green('✅ Ready');
-        console.log(
-          chalk.gray(`  ${index + 1}. ${migration.name} - ${status}`),
-        );
+      entries.forEach((entry, index) => {
+        const status = entry.modified
+          ? chalk.red(`✏️  Applied ${entry.applied!.appliedAt}, modified since`)
+          : entry.state === 'applied'
+          ? chalk.green(`✅ Applied ${entry.applied!.appliedAt}`)
+          : entry.state === 'pending'
+          ? chalk.yellow('⏳ Pending')
+          : chalk.red('⚠️  Applied, file missing');
+        console.log(chalk.gray(`  ${index + 1}. ${entry.name} - ${status}`));
       });
+
+      reportModified(
+        entries.filter((entry) => entry.modified),
+        Boolean(options.allowModified),
+      );
     } catch (error) {
       spinner.fail('Failed to load migrations');
       console.error(chalk.red('Error:'), error);
@@ -236,104 +321,19 @@ program
     }
   });
 
-/**
- * Load migration files from directory
- */
-async function loadMigrations(dir: string) {
-  try {
-    const files = await readdir(dir);
-    const migrationFiles = files.filter((file) => file.endsWith('.js')).sort();
-
-    const migrations = [];
-
-    for (const file of migrationFiles) {
-      const filepath = join(dir, file);
-      const content = await readFile(filepath, 'utf-8');
-
-      // Extract migration functions using dynamic import
-      const module = await import(filepath);
-
-      if (module.up && module.down) {
-        migrations.push({
-          name: file.replace('.js', ''),
-          up: module.up,
-          down: module.down,
-        });
-      }
-    }
-
-    return migrations;
-  } catch (error) {
-    throw new Error(`Failed to load migrations from ${dir}: ${error}`);
-  }
-}
-
 /**
  * Generate migration file content
  */
-function generateMigrationContent(
-  plan: { safe: any[]; unsafe: any[] },
-  name: string,
-): string {
-  const timestamp = new Date().toISOString();
-
-  return `/**
- * Generated migration: ${name}
- * Created: ${timestamp}
- *
- * Safe operations: ${plan.safe.length}
- * Unsafe operations: ${plan.unsafe.length}
- */
-
-import PocketBase from 'pocketbase';
-
-export const up = async (pb) => {
-  console.log('Running migration: ${name}');
-
-  // Safe operations
-${plan.safe.map((op) => `  // ${op.summary}`).join('\n')}
-
-  // Unsafe operations (require manual implementation)
-${plan.unsafe.map((op) => `  // ${op.summary}`).join('\n')}
-
-  // TODO: Implement the actual migration logic
-  console.log('Migration completed: ${name}');
-};
-
-export const down = async (pb) => {
-  console.log('Rolling back migration: ${name}');
-
-  // TODO: Implement rollback logic
-  console.log('Rollback completed: ${name}');
-};
-
-// Helper functions
-const backupData = async (pb, collectionName) => {
-  const records = await pb.collection(collectionName).getFullList();
-  const backup = {
-    collection: collectionName,
-    timestamp: new Date().toISOString(),
-    records: records
-  };
-
-  console.log(\`Backed up \${records.length} records from \${collectionName}\`);
-  return backup;
-};
-
-const migrateFieldData = async (pb, collectionName, fieldName, transformer) => {
-  const records = await pb.collection(collectionName).getFullList();
-
-  for (const record of records) {
-    if (record[fieldName] !== undefined) {
-      const newValue = transformer(record[fieldName]);
-      await pb.collection(collectionName).update(record.id, {
-        [fieldName]: newValue
-      });
-    }
-  }
-
-  console.log(\`Migrated \${records.length} records in \${collectionName}.\${fieldName}\`);
-};
+function generateMigrationContent(plan: MigrationPlan, name: string): string {
+  const migration = MigrationGenerator.generate(
+    [...plan.safe, ...plan.assisted, ...plan.unsafe],
+    { name, generatedBy: 'PocketVex migrate generate' },
+  );
+
+  return `${migration}
+// Hand-written data steps can use ctx.data, which pages through records:
+//   await ctx.data.transformField('users', 'email', (email) => email.toLowerCase());
+//   await ctx.data.backfill('posts', 'status', 'draft', { dryRun: true });
 `;
 }
 
@@ -336,21 +336,19 @@ export class DevServerJS {
     const spinner = ora('Generating TypeScript types...').start();
 
     try {
-      const types = TypeGenerator.generateTypes(schema);
-      const apiClient = TypeGenerator.generateApiClient(schema);
+      const files = TypeGenerator.generateFiles(schema);
 
       // Ensure types directory exists
       await mkdir('generated', { recursive: true });
 
-      // Write types file
-      await writeFile('generated/types.ts', types);
-
-      // Write API client file
-      await writeFile('generated/api-client.ts', apiClient);
+      for (const [name, content] of Object.entries(files)) {
+        await writeFile(`generated/${name}`, content);
+      }
 
       spinner.succeed('TypeScript types generated');
-      console.log(chalk.gray('  - generated/types.ts'));
-      console.log(chalk.gray('  - generated/api-client.ts'));
+      for (const name of Object.keys(files)) {
+        console.log(chalk.gray(`  - generated/${name}`));
+      }
     } catch (error) {
       spinner.fail('Type generation failed');
       console.error(chalk.red('Error generating types:'), error);
@@ -12,6 +12,9 @@ import ora, { type Ora } from 'ora';
 import { SchemaDiff } from './utils/diff.js';
 import { PocketBaseClient } from './utils/pocketbase.js';
 import { TypeGenerator } from './utils/type-generator.js';
+import { MigrationGenerator } from './utils/migration-generator.js';
+import { PlanExecutor } from './utils/plan-executor.js';
+import { SchemaLint, type LintSource } from './utils/schema-lint.js';
 import { credentialStore } from './utils/credential-store.js';
 import { DemoUtils } from './utils/demo-utils.js';
 import { getPocketVexConfig } from './config/pocketvex-config.js';
@@ -314,7 +317,10 @@ export class DevServer {
       const schema = await this.parseSchemaFile(filePath, schemaContent);
 
       // Sync with PocketBase
-      await this.syncSchema(schema);
+      await this.syncSchema(schema, {
+        file: relative(process.cwd(), filePath),
+        content: schemaContent,
+      });
     } catch (error) {
       console.error(
         chalk.red(
@@ -481,15 +487,16 @@ export class DevServer {
   }
 
   /**
-   * Sync schema with PocketBase
+   * Sync schema with PocketBase. The schema is linted first and nothing is
+   * synced while it has errors.
    */
-  private async syncSchema(desiredSchema?: any): Promise<void> {
+  private async syncSchema(
+    desiredSchema?: any,
+    source?: LintSource,
+  ): Promise<void> {
     try {
       this.spinner.start('Syncing schema...');
 
-      // Get current schema from PocketBase
-      const currentSchema = await this.client.fetchCurrentSchema();
-
       // Use provided schema or load from files
       const targetSchema = desiredSchema || (await this.loadSchemaFromFiles());
 
@@ -498,6 +505,21 @@ export class DevServer {
         return;
       }
 
+      const issues = SchemaLint.lint(targetSchema, source);
+      if (SchemaLint.hasErrors(issues)) {
+        this.spinner.fail('Schema has errors, not syncing');
+        DemoUtils.formatLintIssues(issues);
+        return;
+      }
+      if (issues.length > 0) {
+        this.spinner.warn('Schema has warnings');
+        DemoUtils.formatLintIssues(issues);
+        this.spinner.start('Syncing schema...');
+      }
+
+      // Get current schema from PocketBase
+      const currentSchema = await this.client.fetchCurrentSchema();
+
       // Build diff plan
       const plan = SchemaDiff.buildDiffPlan(targetSchema, currentSchema);
 
@@ -582,6 +604,7 @@ export class DevServer {
           "  owner: (field) => field + ' = @request.auth.id',",
           "  relatedOwner: (relation, ownerField = 'author') => relation + '.' + ownerField + ' = @request.auth.id',",
           "  published: (field = 'isPublished') => field + ' = true',",
+          "  equals: (field, value) => field + ' = ' + (typeof value === 'string' ? JSON.stringify(value) : value),",
           "  and: (...rules) => __join(rules, '&&'),",
           "  or: (...rules) => __join(rules, '||'),",
           "  not: (rule) => (rule ? '!(' + rule + ')' : undefined),",
@@ -614,6 +637,7 @@ export class DevServer {
   private displayMigrationPlan(plan: any): void {
     console.log(chalk.gray('\n📋 Migration Plan:'));
     console.log(chalk.green(`  Safe operations: ${plan.safe.length}`));
+    console.log(chalk.cyan(`  Assisted operations: ${plan.assisted.length}`));
     console.log(chalk.yellow(`  Unsafe operations: ${plan.unsafe.length}`));
 
     if (plan.safe.length > 0) {
@@ -623,6 +647,17 @@ export class DevServer {
       });
     }
 
+    if (plan.assisted.length > 0) {
+      console.log(
+        chalk.gray(
+          '\n  Assisted changes (NOT APPLIED, run "pocketvex schema apply --confirm-assisted"):',
+        ),
+      );
+      plan.assisted.forEach((op: any, i: number) => {
+        console.log(chalk.cyan(`    ${i + 1}. ${op.summary}`));
+      });
+    }
+
     if (plan.unsafe.length > 0) {
       console.log(chalk.gray('\n  Unsafe changes (NOT APPLIED):'));
       plan.unsafe.forEach((op: any, i: number) => {
@@ -653,16 +688,19 @@ export class DevServer {
     try {
       let successCount = 0;
       let failureCount = 0;
+      const executor = new PlanExecutor(this.client);
 
-      for (let i = 0; i < safeOperations.length; i++) {
-        const operation = safeOperations[i];
+      // One round trip per collection keeps large schemas under rate limits
+      for (const batch of PlanExecutor.batchOperations(safeOperations)) {
         try {
-          console.log(chalk.gray(`  🔄 Applying: ${operation.summary}`));
-          await this.client.applyOperation(operation);
-          console.log(chalk.green(`  ✅ Applied: ${operation.summary}`));
-          successCount++;
+          console.log(chalk.gray(`  🔄 Applying: ${batch.label}`));
+          await executor.applyBatch(batch);
+          for (const { operation } of batch.steps) {
+            console.log(chalk.green(`  ✅ Applied: ${operation.summary}`));
+          }
+          successCount += batch.steps.length;
         } catch (error) {
-          console.log(chalk.red(`  ❌ Failed: ${operation.summary}`));
+          console.log(chalk.red(`  ❌ Failed: ${batch.label}`));
           console.log(
             chalk.gray(
               `     Error: ${
@@ -670,12 +708,7 @@ export class DevServer {
               }`,
             ),
           );
-          failureCount++;
-        }
-
-        // Small delay between operations to avoid server rate limits
-        if (i < safeOperations.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 250));
+          failureCount += batch.steps.length;
         }
       }
 
@@ -726,28 +759,10 @@ export class DevServer {
    * Generate migration file content
    */
   private generateMigrationContent(operations: any[]): string {
-    const timestamp = new Date().toISOString();
-
-    return `/**
- * Migration: ${timestamp}
- * Generated by PocketVex Dev Server
- */
-
-export const up = async (pb) => {
-  // Unsafe operations requiring manual review
-${operations.map((op, i) => `  // ${i + 1}. ${op.summary}`).join('\n')}
-
-  // TODO: Implement migration logic
-  console.log('Running migration: ${timestamp}');
-};
-
-export const down = async (pb) => {
-  // Rollback operations
-  console.log('Rolling back migration: ${timestamp}');
-
-  // TODO: Implement rollback logic
-};
-`;
+    return MigrationGenerator.generate(operations, {
+      name: new Date().toISOString(),
+      generatedBy: 'PocketVex Dev Server',
+    });
   }
 
   /**
@@ -757,12 +772,17 @@ export const down = async (pb) => {
     const typeSpinner = ora('Generating TypeScript types...').start();
 
     try {
-      const typesContent = TypeGenerator.generateTypes(schema);
-      const typesFile = join(this.config.generatedDir, 'types.ts');
-      await writeFile(typesFile, typesContent);
+      const files = TypeGenerator.generateFiles(schema);
+      for (const [name, content] of Object.entries(files)) {
+        await writeFile(join(this.config.generatedDir, name), content);
+      }
 
       typeSpinner.succeed('TypeScript types generated');
-      console.log(chalk.gray(`  File: ${typesFile}`));
+      for (const name of Object.keys(files)) {
+        console.log(
+          chalk.gray(`  File: ${join(this.config.generatedDir, name)}`),
+        );
+      }
     } catch (error) {
       typeSpinner.fail('Failed to generate types');
       throw error;
@@ -11,13 +11,37 @@ export type {
   SchemaRules,
   MigrationPlan,
   MigrationOperation,
+  AssistedStrategy,
+  LintIssue,
   PocketBaseConfig,
   DevServerConfig,
 } from './types/schema.js';
 
 // Export core utilities
 export { SchemaDiff } from './utils/diff.js';
+export { SchemaRelations } from './utils/relations.js';
+export { SchemaLint } from './utils/schema-lint.js';
+export { RuleParser } from './utils/rule-parser.js';
+export type {
+  RuleNode,
+  RuleOperand,
+  RuleOperator,
+} from './utils/rule-parser.js';
 export { allow as Rules, pb as PBRules } from './utils/rules.js';
+export type { Rule } from './utils/rules.js';
+export { createTypedClient } from './utils/typed-client.js';
+export type {
+  TypedClient,
+  TypedCollection,
+  TypedViewCollection,
+  TypedCollectionTypes,
+  TypedCollections,
+  TypedRecord,
+  TypedRecordEvent,
+  TypedRecordOptions,
+  TypedListOptions,
+  TypedFullListOptions,
+} from './utils/typed-client.js';
 
 // Note: CLI utilities are available via the main CLI interface
 // Use 'pocketvex migrate' and 'pocketvex schema apply' commands
@@ -0,0 +1,296 @@
+/**
+ * In-memory PocketBase host for tests
+ * Answers the SDK's requests through its `fetch` option, so code under test
+ * runs against a real PocketBase client instead of hand-rolled stubs
+ */
+
+import PocketBase from 'pocketbase';
+import {
+  FieldsAdapter,
+  type PocketBaseAdapter,
+} from '../utils/pocketbase-adapter.js';
+import { PocketBaseClient } from '../utils/pocketbase.js';
+
+export interface HostModel {
+  id: string;
+  [key: string]: any;
+}
+
+/** Thrown by request handlers and sent back as an error response */
+class HostError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export class FakeHost {
+  readonly url = 'http://127.0.0.1:8090';
+  /** API collections, in the 0.23+ `fields` shape unless seeded otherwise */
+  readonly collections: HostModel[];
+  /** Records by collection name */
+  readonly records: Record<string, HostModel[]>;
+  /** Collection changes in order, e.g. `create:posts` or `update:posts` */
+  readonly log: string[] = [];
+  /** Every request URL, in order */
+  readonly requests: URL[] = [];
+  /** Collections whose schema or record changes fail with a 400 */
+  readonly failOn = new Set<string>();
+  private nextId = 0;
+
+  /**
+   * Seed collections and records, which get generated IDs unless they set one
+   */
+  constructor(
+    collections: Record<string, any>[] = [],
+    records: Record<string, Record<string, any>[]> = {},
+  ) {
+    this.collections = collections.map((collection) => ({
+      id: `id_${collection.name}`,
+      ...collection,
+    }));
+    this.records = Object.fromEntries(
+      Object.entries(records).map(([name, list]) => [
+        name,
+        list.map((record) => ({ id: this.newId(), ...record })),
+      ]),
+    );
+  }
+
+  /**
+   * SDK instance whose requests this host answers
+   */
+  sdk(): PocketBase {
+    const pb = new PocketBase(this.url);
+    pb.autoCancellation(false);
+    pb.beforeSend = (url, options) => ({
+      url,
+      options: { ...options, fetch: this.fetch },
+    });
+    return pb;
+  }
+
+  /**
+   * Schema client connected to this host with the given API shape
+   */
+  client(adapter: PocketBaseAdapter = new FieldsAdapter()): PocketBaseClient {
+    const client = new PocketBaseClient({
+      url: this.url,
+      adminEmail: '',
+      adminPassword: '',
+    });
+    client.pb = this.sdk();
+    client.adapter = adapter;
+    return client;
+  }
+
+  collection(name: string): HostModel | undefined {
+    return this.collections.find((c) => c.id === name || c.name === name);
+  }
+
+  private fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const url = new URL(String(input));
+    this.requests.push(url);
+    const body =
+      typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+    const path = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    try {
+      const data = this.handle(
+        init?.method ?? 'GET',
+        path,
+        url.searchParams,
+        body,
+      );
+      return Response.json(data ?? {});
+    } catch (error) {
+      const status = error instanceof HostError ? error.status : 500;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return Response.json({ code: status, message, data: {} }, { status });
+    }
+  };
+
+  private handle(
+    method: string,
+    path: string[],
+    query: URLSearchParams,
+    body: any,
+  ): unknown {
+    const [api, resource, name, sub, id] = path;
+    if (api !== 'api' || resource !== 'collections') {
+      throw new HostError(404, `No route for ${method} /${path.join('/')}`);
+    }
+
+    if (sub === 'records') {
+      return this.handleRecords(method, name!, id, query, body);
+    }
+
+    if (!name) {
+      if (method === 'GET') return this.list(this.collections, query);
+      this.change(body.name, 'create');
+      const collection = { ...body, id: `id_${body.name}` };
+      this.collections.push(collection);
+      return collection;
+    }
+
+    const collection = this.collection(name);
+    if (!collection) throw new HostError(404, `Missing collection '${name}'`);
+
+    switch (method) {
+      case 'GET':
+        return collection;
+      case 'PATCH': {
+        this.change(collection.name, 'update');
+        if (body.name && body.name !== collection.name) {
+          this.records[body.name] = this.records[collection.name] ?? [];
+          delete this.records[collection.name];
+        }
+        return Object.assign(collection, body);
+      }
+      case 'DELETE':
+        this.change(collection.name, 'delete');
+        this.collections.splice(this.collections.indexOf(collection), 1);
+        delete this.records[collection.name];
+        return undefined;
+      default:
+        throw new HostError(405, `Unsupported method ${method}`);
+    }
+  }
+
+  private handleRecords(
+    method: string,
+    name: string,
+    id: string | undefined,
+    query: URLSearchParams,
+    body: any,
+  ): unknown {
+    const collection = this.collection(name);
+    if (!collection) throw new HostError(404, `Missing collection '${name}'`);
+    const records = (this.records[collection.name] ??= []);
+
+    if (!id) {
+      if (method === 'GET') return this.list(records, query);
+      this.change(collection.name);
+      const record = { ...body, id: this.newId() };
+      records.push(record);
+      return record;
+    }
+
+    const record = records.find((r) => r.id === id);
+    if (!record) throw new HostError(404, `Missing record '${id}'`);
+
+    switch (method) {
+      case 'GET':
+        return record;
+      case 'PATCH':
+        this.change(collection.name);
+        return Object.assign(record, body);
+      case 'DELETE':
+        this.change(collection.name);
+        records.splice(records.indexOf(record), 1);
+        return undefined;
+      default:
+        throw new HostError(405, `Unsupported method ${method}`);
+    }
+  }
+
+  /**
+   * Fail changes to collections in `failOn`, and log schema changes
+   */
+  private change(name: string, action?: string): void {
+    if (this.failOn.has(name)) {
+      throw new HostError(400, `Failed to change '${name}'`);
+    }
+    if (action) this.log.push(`${action}:${name}`);
+  }
+
+  /**
+   * One page of items, filtered and sorted the way the query asks
+   */
+  private list(items: HostModel[], query: URLSearchParams) {
+    const page = Number(query.get('page') ?? 1);
+    const perPage = Number(query.get('perPage') ?? 30);
+    const filtered = items.filter(matches(query.get('filter') ?? ''));
+    const sorted = sortBy(filtered, query.get('sort') ?? '');
+    const skipTotal = ['1', 'true'].includes(query.get('skipTotal') ?? '');
+
+    return {
+      page,
+      perPage,
+      totalItems: skipTotal ? -1 : sorted.length,
+      totalPages: skipTotal ? -1 : Math.ceil(sorted.length / perPage),
+      items: sorted.slice((page - 1) * perPage, page * perPage),
+    };
+  }
+
+  private newId(): string {
+    return String(++this.nextId).padStart(15, '0');
+  }
+}
+
+/**
+ * Predicate for a filter of `&&`-joined comparisons against literals, the
+ * subset PocketVex sends
+ */
+function matches(filter: string): (item: HostModel) => boolean {
+  const clauses = filter
+    .split('&&')
+    .map((clause) => clause.trim().replace(/^\((.*)\)$/, '$1'))
+    .filter(Boolean)
+    .map((clause) => {
+      const match = clause.match(/^(\w+)\s*(!=|>=|<=|=|>|<)\s*(.+)$/);
+      if (!match) throw new HostError(400, `Unsupported filter '${clause}'`);
+      return {
+        field: match[1]!,
+        operator: match[2]!,
+        value: JSON.parse(
+          match[3]!.replace(/^'(.*)'$/, (_, text: string) =>
+            JSON.stringify(text.replace(/\\'/g, "'")),
+          ),
+        ),
+      };
+    });
+
+  return (item) =>
+    clauses.every(({ field, operator, value }) => {
+      const actual = item[field];
+      switch (operator) {
+        case '=':
+          return actual === value;
+        case '!=':
+          return actual !== value;
+        case '>':
+          return actual > value;
+        case '>=':
+          return actual >= value;
+        case '<':
+          return actual < value;
+        default:
+          return actual <= value;
+      }
+    });
+}
+
+/**
+ * Items ordered by a comma-separated sort, `-` prefix for descending
+ */
+function sortBy(items: HostModel[], sort: string): HostModel[] {
+  const keys = sort.split(',').filter(Boolean);
+  return [...items].sort((a, b) => {
+    for (const key of keys) {
+      const field = key.replace(/^[-+]/, '');
+      const order = key.startsWith('-') ? -1 : 1;
+      if (a[field] < b[field]) return -order;
+      if (a[field] > b[field]) return order;
+    }
+    return 0;
+  });
+}
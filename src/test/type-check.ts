@@ -0,0 +1,53 @@
+/**
+ * Type-check helper for tests
+ * Compiles source files in a temporary directory, with `pocketvex` and
+ * `pocketbase` resolving to this checkout, and returns the compiler output
+ */
+
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const root = join(import.meta.dir, '../..');
+
+/**
+ * Type-check `files` (name → source) in strict mode. Returns an empty string
+ * when they compile, so `@ts-expect-error` lines must all hit an error.
+ */
+export async function typeCheck(
+  files: Record<string, string>,
+): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'pocketvex-'));
+  try {
+    for (const [name, source] of Object.entries(files)) {
+      await writeFile(join(dir, name), source);
+    }
+    await writeFile(
+      join(dir, 'tsconfig.json'),
+      JSON.stringify({
+        compilerOptions: {
+          strict: true,
+          noEmit: true,
+          module: 'esnext',
+          moduleResolution: 'bundler',
+          target: 'es2022',
+          skipLibCheck: true,
+          types: [],
+          paths: {
+            pocketvex: [join(root, 'src/lib.ts')],
+            pocketbase: [join(root, 'node_modules/pocketbase')],
+          },
+        },
+        files: Object.keys(files),
+      }),
+    );
+
+    const result = Bun.spawnSync(
+      [join(root, 'node_modules/.bin/tsc'), '-p', dir],
+      { cwd: dir },
+    );
+    return result.stdout.toString();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
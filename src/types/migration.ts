@@ -1,8 +1,12 @@
 /**
  * Minimal migration typing for authoring helper-friendly migrations.
- * Note: This is a typing surface only; runtime helpers are left to the CLI/dev server.
+ * The migration runner passes a context built by `createMigrationContext`
+ * (src/utils/migration-context.ts) as the second argument to `up`/`down`;
+ * `ctx.data` comes from src/utils/migration-data.ts.
  */
 
+import type { MigrationOperation } from './schema.js';
+
 export interface MigrationSQL {
   run: (sql: string) => Promise<unknown>;
 }
@@ -24,9 +28,94 @@ export interface MigrationOps {
   deleteIndex: (collection: string, sql: string) => Promise<void>;
 }
 
+export interface DataMigrationProgress {
+  /** Records matching the filter when the run started */
+  total: number;
+  processed: number;
+  updated: number;
+  failed: number;
+}
+
+export interface DataMigrationResult extends DataMigrationProgress {
+  /** Records that could not be processed, when `continueOnError` is set */
+  errors: { id: string; message: string }[];
+}
+
+export interface DataMigrationOptions {
+  /** PocketBase filter limiting the records visited */
+  filter?: string;
+  /** Records fetched per page (default 200) */
+  batchSize?: number;
+  /** Records processed at the same time (default 4) */
+  concurrency?: number;
+  /** Visit records and count changes without writing them */
+  dryRun?: boolean;
+  /** Record failures and keep going instead of stopping at the first one */
+  continueOnError?: boolean;
+  /** Called after each page */
+  onProgress?: (progress: DataMigrationProgress) => void;
+}
+
+export interface MigrationData {
+  /**
+   * Visit every record, page by page. Returning an object from `fn` updates
+   * the record with it.
+   */
+  forEachRecord: (
+    collection: string,
+    fn: (record: any) => unknown,
+    options?: DataMigrationOptions,
+  ) => Promise<DataMigrationResult>;
+  /** Rewrite a field's value on every record where it is set */
+  transformField: (
+    collection: string,
+    field: string,
+    transform: (value: any, record: any) => unknown,
+    options?: DataMigrationOptions,
+  ) => Promise<DataMigrationResult>;
+  /** Copy one field into another, optionally converting the value */
+  copyField: (
+    collection: string,
+    from: string,
+    to: string,
+    transform?: (value: any, record: any) => unknown,
+    options?: DataMigrationOptions,
+  ) => Promise<DataMigrationResult>;
+  /**
+   * Set a field on every record where it is blank the way PocketBase's
+   * `required` check sees it, so 0 and false count for number and bool fields
+   */
+  backfill: (
+    collection: string,
+    field: string,
+    value: unknown | ((record: any) => unknown),
+    options?: DataMigrationOptions,
+  ) => Promise<DataMigrationResult>;
+  /**
+   * Make a field's values unique before it gets a unique index. The oldest
+   * record keeps each value, compared case-insensitively, and later ones get
+   * their ID appended. Empty values are left alone.
+   */
+  dedupe: (
+    collection: string,
+    field: string,
+    options?: DataMigrationOptions,
+  ) => Promise<DataMigrationResult>;
+}
+
 export interface MigrationContext {
   sql: MigrationSQL;
   op: MigrationOps;
+  data: MigrationData;
+  /**
+   * Apply `operation` as one journaled step, the way `schema push` applies
+   * it. Pass `run` to perform it with your own SDK calls instead. Generated
+   * migrations are a list of these steps.
+   */
+  step: (
+    operation: MigrationOperation,
+    run?: () => Promise<void>,
+  ) => Promise<void>;
 }
 
 export type Migration = (pb: any, ctx: MigrationContext) => Promise<void>;
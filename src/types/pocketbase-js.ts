@@ -66,7 +66,7 @@ export interface PocketBaseQuery {
 export interface PocketBaseCollection {
   id: string;
   name: string;
-  type: 'base' | 'auth';
+  type: 'base' | 'auth' | 'view';
   system: boolean;
   schema: PocketBaseField[];
   indexes: string[];
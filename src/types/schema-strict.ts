@@ -46,7 +46,12 @@ export type BoolField = BaseField & { type: 'bool' };
 export type EmailField = BaseField & { type: 'email' };
 export type UrlField = BaseField & { type: 'url' };
 export type DateField = BaseField & { type: 'date' };
-export type JsonField = BaseField & { type: 'json'; options?: { maxSize?: number } };
+export type JsonField = BaseField & {
+  type: 'json';
+  /** TypeScript type used for the field in generated types */
+  tsType?: string;
+  options?: { maxSize?: number };
+};
 
 export type SchemaFieldStrict =
   | TextField
@@ -6,29 +6,83 @@
 export interface SchemaField {
   id?: string;
   name: string;
+  /** Previous field name; lets the diff emit a rename instead of delete + add */
+  renamedFrom?: string;
   type:
     | 'text'
+    | 'editor'
     | 'number'
     | 'bool'
     | 'email'
     | 'url'
     | 'date'
+    | 'autodate'
     | 'select'
     | 'json'
     | 'file'
     | 'relation'
-    | 'editor';
+    | 'password'
+    | 'geoPoint';
   required?: boolean;
   unique?: boolean;
+  /** Value written to existing records with no value when the field becomes required */
+  default?: any;
+  /** json: TypeScript type used for the field in generated types, e.g. `{ tags: string[] }` */
+  tsType?: string;
+  /**
+   * Type-specific settings, named as in PocketBase 0.23+. Older servers'
+   * names (`noDecimal`, `convertUrls`) are translated on apply.
+   */
   options?: {
-    min?: number;
-    max?: number;
+    /** text, password: minimum length; number: minimum value; date: earliest date */
+    min?: number | string;
+    /** text, password: maximum length; number: maximum value; date: latest date */
+    max?: number | string;
+    /** text, password: regular expression values must match */
     pattern?: string;
+    /** text: pattern used to generate a value when none is given */
+    autogeneratePattern?: string;
+    /** text: whether this is the collection's `id` field */
+    primaryKey?: boolean;
+    /** password: bcrypt cost */
+    cost?: number;
+    /** number: reject decimal values */
+    onlyInt?: boolean;
+    /** select: allowed values */
     values?: string[];
+    /** select, file, relation: fewest values allowed */
+    minSelect?: number;
+    /** select, file, relation: most values allowed; above 1 values are arrays */
     maxSelect?: number;
+    /** file: bytes per file; editor, json: bytes per value */
     maxSize?: number;
+    /** file: allowed MIME types */
+    mimeTypes?: string[];
+    /** file: thumbnail sizes, e.g. `100x100` */
+    thumbs?: string[];
+    /** file: require a file token to download */
+    protected?: boolean;
+    /** email, url: allowed domains */
+    onlyDomains?: string[];
+    /** email, url: rejected domains */
+    exceptDomains?: string[];
+    /** editor: convert URLs to relative paths */
+    convertURLs?: boolean;
     collectionId?: string;
+    /** Relation target by collection name, resolved to the host's ID on apply */
+    collection?: string;
+    /** relation: delete these records when the related record is deleted */
     cascadeDelete?: boolean;
+    /** relation: fields shown for related records in the Admin UI */
+    displayFields?: string[];
+    /** autodate: set when a record is created */
+    onCreate?: boolean;
+    /** autodate: set whenever a record is updated */
+    onUpdate?: boolean;
+    /** Leave the field out of API responses */
+    hidden?: boolean;
+    /** Show the field when the record is referenced in the Admin UI */
+    presentable?: boolean;
     [key: string]: any;
   };
 }
@@ -39,16 +93,75 @@ export interface SchemaRules {
   create?: string;
   update?: string;
   delete?: string;
+  /** Auth collections: extra condition checked on every authentication */
+  auth?: string;
+  /** Auth collections: who may manage other users' email, password and verification */
+  manage?: string;
+}
+
+export interface SchemaEmailTemplate {
+  subject?: string;
+  body?: string;
+}
+
+export interface SchemaTokenOptions {
+  /** Token lifetime in seconds */
+  duration?: number;
+}
+
+/**
+ * Settings of auth collections. Only properties declared in the schema are
+ * compared, so omitted settings keep whatever the host has.
+ */
+export interface SchemaAuthOptions {
+  passwordAuth?: { enabled?: boolean; identityFields?: string[] };
+  oauth2?: {
+    enabled?: boolean;
+    mappedFields?: Record<string, string>;
+    providers?: { name: string; [key: string]: any }[];
+  };
+  otp?: {
+    enabled?: boolean;
+    duration?: number;
+    length?: number;
+    emailTemplate?: SchemaEmailTemplate;
+  };
+  mfa?: { enabled?: boolean; duration?: number; rule?: string };
+  authAlert?: { enabled?: boolean; emailTemplate?: SchemaEmailTemplate };
+  authToken?: SchemaTokenOptions;
+  passwordResetToken?: SchemaTokenOptions;
+  emailChangeToken?: SchemaTokenOptions;
+  verificationToken?: SchemaTokenOptions;
+  fileToken?: SchemaTokenOptions;
+  verificationTemplate?: SchemaEmailTemplate;
+  resetPasswordTemplate?: SchemaEmailTemplate;
+  confirmEmailChangeTemplate?: SchemaEmailTemplate;
+  /** PocketBase <= 0.22 only */
+  minPasswordLength?: number;
+  requireEmail?: boolean;
+  onlyVerified?: boolean;
+  onlyEmailDomains?: string[];
+  exceptEmailDomains?: string[];
 }
 
 export interface SchemaCollection {
   id?: string;
   name: string;
-  type?: 'base' | 'auth';
+  /** Previous collection name; lets the diff emit a rename instead of delete + create */
+  renamedFrom?: string;
+  type?: 'base' | 'auth' | 'view';
   system?: boolean;
+  /**
+   * Fields of the collection. For views they are derived from `viewQuery` by
+   * the server and only declared for type generation.
+   */
   schema?: SchemaField[];
   indexes?: string[];
   rules?: SchemaRules;
+  /** Settings for `type: 'auth'` collections */
+  auth?: SchemaAuthOptions;
+  /** SQL SELECT statement backing a `type: 'view'` collection */
+  viewQuery?: string;
 }
 
 export interface SchemaDefinition {
@@ -56,15 +169,34 @@ export interface SchemaDefinition {
 }
 
 export interface MigrationPlan {
+  /** Applied automatically */
   safe: MigrationOperation[];
+  /** Applied after confirmation, preparing existing records first */
+  assisted: MigrationOperation[];
+  /** Require a migration */
   unsafe: MigrationOperation[];
 }
 
+/**
+ * How an assisted operation prepares existing records before it is applied
+ */
+export interface AssistedStrategy {
+  /**
+   * `backfill` writes `value` to records where the field is empty; `dedupe`
+   * keeps the oldest record's value and makes the others unique
+   */
+  kind: 'backfill' | 'dedupe';
+  /** Field to rewrite, by its current name */
+  field: string;
+  value?: any;
+}
+
 export interface MigrationOperation {
   kind:
     | 'createCollection'
     | 'updateCollection'
     | 'deleteCollection'
+    | 'renameCollection'
     | 'addField'
     | 'updateField'
     | 'deleteField'
@@ -72,12 +204,33 @@ export interface MigrationOperation {
     | 'addIndex'
     | 'deleteIndex'
     | 'updateRules'
+    | 'updateAuth'
+    | 'updateViewQuery'
     | 'typeChange';
   summary: string;
   collection?: string;
   field?: string;
   payload: any;
+  /** State the operation replaces, when the payload alone cannot be inverted */
+  previous?: any;
   requiresDataMigration?: boolean;
+  /** Record changes made before an assisted operation is applied */
+  strategies?: AssistedStrategy[];
+}
+
+/**
+ * Problem found in a schema before it is sent to PocketBase
+ */
+export interface LintIssue {
+  /** Errors would be rejected by PocketBase; warnings are likely mistakes */
+  severity: 'error' | 'warning';
+  /** Check that reported the issue, e.g. `select-values` */
+  rule: string;
+  message: string;
+  collection?: string;
+  field?: string;
+  /** Where the offending declaration is, when the schema source is known */
+  location?: { file: string; line: number; column: number };
 }
 
 export interface PocketBaseConfig {
@@ -0,0 +1,41 @@
+/**
+ * Assisted strategies
+ * Record changes that prepare existing data for an assisted operation, e.g.
+ * filling empty values before a field becomes required
+ */
+
+import type PocketBase from 'pocketbase';
+import type { AssistedStrategy } from '../types/schema.js';
+import { createMigrationData } from './migration-data.js';
+
+export class AssistedStrategies {
+  /**
+   * Run a strategy against a collection's records and return how many
+   * records were updated
+   */
+  static async run(
+    pb: PocketBase,
+    collection: string,
+    strategy: AssistedStrategy,
+  ): Promise<number> {
+    switch (strategy.kind) {
+      case 'backfill': {
+        const result = await createMigrationData(pb).backfill(
+          collection,
+          strategy.field,
+          strategy.value,
+        );
+        return result.updated;
+      }
+      case 'dedupe': {
+        const result = await createMigrationData(pb).dedupe(
+          collection,
+          strategy.field,
+        );
+        return result.updated;
+      }
+      default:
+        throw new Error(`Unknown assisted strategy: ${strategy.kind}`);
+    }
+  }
+}
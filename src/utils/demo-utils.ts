@@ -7,6 +7,7 @@ import chalk from 'chalk';
 import ora, { type Ora } from 'ora';
 import inquirer from 'inquirer';
 import { credentialStore } from './credential-store.js';
+import type { LintIssue } from '../types/schema.js';
 
 // Demo configuration types
 export interface DemoConfig {
@@ -338,7 +339,9 @@ export class DemoUtils {
    * Format migration plan for display
    */
   static formatMigrationPlan(plan: any): void {
+    const assisted = plan.assisted || [];
     console.log(chalk.gray(`Safe operations: ${plan.safe.length}`));
+    console.log(chalk.gray(`Assisted operations: ${assisted.length}`));
     console.log(chalk.gray(`Unsafe operations: ${plan.unsafe.length}`));
 
     if (plan.safe.length > 0) {
@@ -365,6 +368,15 @@ export class DemoUtils {
       });
     }
 
+    if (assisted.length > 0) {
+      console.log(
+        chalk.gray('\nAssisted operations (applied with --confirm-assisted):'),
+      );
+      assisted.forEach((op: any, i: number) => {
+        console.log(chalk.cyan(`  ${i + 1}. ${op.summary}`));
+      });
+    }
+
     if (plan.unsafe.length > 0) {
       console.log(chalk.gray('\nUnsafe operations requiring migration:'));
       plan.unsafe.forEach((op: any, i: number) => {
@@ -378,6 +390,35 @@ export class DemoUtils {
     }
   }
 
+  /**
+   * Format schema lint issues for display
+   */
+  static formatLintIssues(issues: LintIssue[]): void {
+    for (const issue of issues) {
+      const where = [issue.collection, issue.field].filter(Boolean).join('.');
+      const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+      console.log(
+        `  ${color(issue.severity.padEnd(7))} ${where ? `${where}: ` : ''}${
+          issue.message
+        } ${chalk.gray(`(${issue.rule})`)}`,
+      );
+      if (issue.location) {
+        const { file, line, column } = issue.location;
+        console.log(chalk.gray(`          at ${file}:${line}:${column}`));
+      }
+    }
+
+    const errors = issues.filter((issue) => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+    console.log(
+      chalk.gray(
+        `\n${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${
+          warnings === 1 ? '' : 's'
+        }`,
+      ),
+    );
+  }
+
   /**
    * Ask for confirmation before proceeding
    */
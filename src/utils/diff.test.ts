@@ -0,0 +1,499 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type {
+  SchemaCollection,
+  SchemaDefinition,
+  SchemaField,
+} from '../types/schema.js';
+import { SchemaDiff } from './diff.js';
+
+const schemaOf = (...collections: SchemaCollection[]): SchemaDefinition => ({
+  collections,
+});
+
+const kinds = (operations: { kind: string }[]) =>
+  operations.map((operation) => operation.kind);
+
+describe('SchemaDiff field renames', () => {
+  const current = schemaOf({
+    name: 'posts',
+    schema: [
+      { id: 'f1', name: 'title', type: 'text' },
+      { id: 'f2', name: 'body', type: 'text' },
+    ],
+  });
+
+  test('pairs fields by ID', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf({
+        name: 'posts',
+        schema: [
+          { id: 'f1', name: 'headline', type: 'text' },
+          { id: 'f2', name: 'body', type: 'text' },
+        ],
+      }),
+      current,
+    );
+
+    expect(kinds(plan.safe)).toEqual(['renameField']);
+    expect(plan.safe[0]!.payload).toMatchObject({
+      from: 'title',
+      to: 'headline',
+    });
+    expect(plan.unsafe).toEqual([]);
+  });
+
+  test('pairs fields by a renamedFrom hint', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf({
+        name: 'posts',
+        schema: [
+          { name: 'headline', type: 'text', renamedFrom: 'title' },
+          { name: 'body', type: 'text' },
+        ],
+      }),
+      current,
+    );
+
+    expect(kinds(plan.safe)).toEqual(['renameField']);
+    expect(plan.unsafe).toEqual([]);
+  });
+
+  test('diffs other changes against the new name', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf({
+        name: 'posts',
+        schema: [
+          { id: 'f1', name: 'headline', type: 'text', required: true },
+          { id: 'f2', name: 'body', type: 'text' },
+        ],
+      }),
+      current,
+    );
+
+    const changes = [...plan.safe, ...plan.assisted, ...plan.unsafe];
+    expect(kinds(changes)[0]).toBe('renameField');
+    expect(changes.map((change) => change.field)).toEqual([
+      'headline',
+      'headline',
+    ]);
+  });
+
+  test('a removed field without a hint is a delete and an add', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf({
+        name: 'posts',
+        schema: [
+          { name: 'headline', type: 'text' },
+          { id: 'f2', name: 'body', type: 'text' },
+        ],
+      }),
+      current,
+    );
+
+    expect(kinds(plan.safe)).toEqual(['addField']);
+    expect(kinds(plan.unsafe)).toEqual(['deleteField']);
+  });
+});
+
+describe('SchemaDiff collection renames', () => {
+  const current = schemaOf({
+    id: 'c1',
+    name: 'posts',
+    schema: [{ id: 'f1', name: 'title', type: 'text' }],
+  });
+
+  test('pairs collections by ID', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf({
+        id: 'c1',
+        name: 'articles',
+        schema: [{ id: 'f1', name: 'title', type: 'text' }],
+      }),
+      current,
+    );
+
+    expect(kinds(plan.safe)).toEqual(['renameCollection']);
+    expect(plan.safe[0]!.payload).toMatchObject({
+      from: 'posts',
+      to: 'articles',
+      current: { id: 'c1' },
+    });
+    expect(plan.unsafe).toEqual([]);
+  });
+
+  test('pairs collections by a renamedFrom hint and diffs the rest', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf({
+        name: 'articles',
+        renamedFrom: 'posts',
+        schema: [
+          { id: 'f1', name: 'title', type: 'text' },
+          { name: 'summary', type: 'text' },
+        ],
+      }),
+      current,
+    );
+
+    expect(
+      plan.safe.map((operation) => `${operation.kind}:${operation.collection}`),
+    ).toEqual(['renameCollection:articles', 'addField:articles']);
+    expect(plan.unsafe).toEqual([]);
+  });
+
+  test('a renamed collection without an ID or hint is a delete and a create', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf({ name: 'articles', schema: [] }),
+      current,
+    );
+
+    expect(kinds(plan.safe)).toEqual(['createCollection']);
+    expect(kinds(plan.unsafe)).toEqual(['deleteCollection']);
+  });
+});
+
+describe('SchemaDiff.invertOperation', () => {
+  test('swaps the names of a rename', () => {
+    const inverse = SchemaDiff.invertOperation({
+      kind: 'renameField',
+      summary: 'Rename',
+      collection: 'posts',
+      field: 'headline',
+      payload: { from: 'title', to: 'headline' },
+    });
+
+    expect(inverse).toMatchObject({
+      kind: 'renameField',
+      field: 'title',
+      payload: { from: 'headline', to: 'title' },
+      summary: 'Revert: Rename',
+    });
+  });
+
+  test('renames a collection back to its old name', () => {
+    const inverse = SchemaDiff.invertOperation({
+      kind: 'renameCollection',
+      summary: 'Rename',
+      collection: 'articles',
+      payload: { from: 'posts', to: 'articles', current: { id: 'c1' } },
+    });
+
+    expect(inverse).toMatchObject({
+      kind: 'renameCollection',
+      collection: 'posts',
+      payload: { from: 'articles', to: 'posts', current: { id: 'c1' } },
+    });
+  });
+
+  test('reverts field updates to the current field', () => {
+    const inverse = SchemaDiff.invertOperation({
+      kind: 'updateField',
+      summary: 'Update',
+      collection: 'posts',
+      field: 'title',
+      payload: {
+        desired: { name: 'title', type: 'text', required: true },
+        current: { name: 'title', type: 'text' },
+      },
+    });
+
+    expect(inverse?.payload).toEqual({
+      desired: { name: 'title', type: 'text' },
+      current: { name: 'title', type: 'text', required: true },
+    });
+  });
+
+  test('cannot revert rule changes without their previous rules', () => {
+    expect(
+      SchemaDiff.invertOperation({
+        kind: 'updateRules',
+        summary: 'Rules',
+        collection: 'posts',
+        payload: { listRule: '' },
+      }),
+    ).toBeNull();
+  });
+});
+
+describe('SchemaDiff create ordering', () => {
+  const relation = (name: string, collection: string) => ({
+    name,
+    type: 'relation' as const,
+    options: { collection },
+  });
+
+  test('creates relation targets first', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf(
+        { name: 'posts', schema: [relation('author', 'authors')] },
+        { name: 'authors', schema: [{ name: 'name', type: 'text' }] },
+      ),
+      schemaOf(),
+    );
+
+    expect(plan.safe.map((operation) => operation.collection)).toEqual([
+      'authors',
+      'posts',
+    ]);
+  });
+
+  test('defers relations that close a cycle until both collections exist', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf(
+        { name: 'teams', schema: [relation('owner', 'members')] },
+        {
+          name: 'members',
+          schema: [relation('team', 'teams')],
+          indexes: ['CREATE INDEX idx_team ON members (team)'],
+        },
+      ),
+      schemaOf(),
+    );
+
+    expect(
+      plan.safe.map((operation) => `${operation.kind}:${operation.collection}`),
+    ).toEqual([
+      'createCollection:members',
+      'createCollection:teams',
+      'addField:members',
+      'addIndex:members',
+    ]);
+    expect(plan.safe[0]!.payload).toMatchObject({ schema: [], indexes: [] });
+  });
+});
+
+describe('SchemaDiff field options', () => {
+  /** Plan for changing one field's options from `current` to `desired` */
+  const planFor = (
+    type: SchemaField['type'],
+    desired: Record<string, any>,
+    current: Record<string, any>,
+  ) =>
+    SchemaDiff.buildDiffPlan(
+      schemaOf({
+        name: 'posts',
+        schema: [{ name: 'value', type, options: desired }],
+      }),
+      schemaOf({
+        name: 'posts',
+        schema: [{ name: 'value', type, options: current }],
+      }),
+    );
+
+  test('explains each changed option in the summary', () => {
+    const plan = planFor(
+      'file',
+      { maxSize: 10, protected: true, thumbs: ['100x100'] },
+      { maxSize: 5, protected: false, thumbs: [] },
+    );
+
+    expect(plan.unsafe).toEqual([]);
+    expect(plan.safe.map((operation) => operation.summary)).toEqual([
+      "Update field 'value' in collection 'posts': maxSize: 5 → 10 (loosens the limit), protected: false → true (downloads require a file token), thumbs: none → 100x100 (thumbnails are generated on request)",
+    ]);
+  });
+
+  test('options that can invalidate stored values are unsafe', () => {
+    const unsafe: [SchemaField['type'], object, object][] = [
+      ['file', { maxSize: 5 }, { maxSize: 10 }],
+      ['file', { mimeTypes: ['image/png'] }, { mimeTypes: [] }],
+      ['relation', { maxSelect: 1 }, { maxSelect: 5 }],
+      ['relation', { cascadeDelete: true }, { cascadeDelete: false }],
+      ['email', { onlyDomains: ['a.com'] }, {}],
+      ['select', { values: ['a'] }, { values: ['a', 'b'] }],
+    ];
+    for (const [type, desired, current] of unsafe) {
+      expect(kinds(planFor(type, desired, current).unsafe)).toEqual([
+        'typeChange',
+      ]);
+    }
+  });
+
+  test('undeclared options and reordered lists are not changes', () => {
+    expect(planFor('select', {}, { values: ['a', 'b'] }).safe).toEqual([]);
+    expect(
+      planFor('select', { values: ['b', 'a'] }, { values: ['a', 'b'] }).safe,
+    ).toEqual([]);
+    expect(planFor('relation', { displayFields: [] }, {}).safe).toEqual([]);
+  });
+});
+
+describe('SchemaDiff views', () => {
+  const view = (name: string, viewQuery: string): SchemaCollection => ({
+    name,
+    type: 'view',
+    viewQuery,
+  });
+  const posts: SchemaCollection = {
+    name: 'posts',
+    schema: [{ name: 'title', type: 'text' }],
+  };
+
+  test('ignores whitespace and a trailing semicolon in queries', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf(posts, view('stats', 'SELECT id\n  FROM posts;')),
+      schemaOf(posts, view('stats', 'SELECT id FROM posts')),
+    );
+    expect(plan.safe).toEqual([]);
+  });
+
+  test('a changed query is a safe, revertible update', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf(posts, view('stats', 'SELECT id, title FROM posts')),
+      schemaOf(posts, view('stats', 'SELECT id FROM posts')),
+    );
+
+    expect(plan.safe).toMatchObject([
+      {
+        kind: 'updateViewQuery',
+        payload: 'SELECT id, title FROM posts',
+        previous: 'SELECT id FROM posts',
+      },
+    ]);
+    expect(SchemaDiff.invertOperation(plan.safe[0]!)?.payload).toBe(
+      'SELECT id FROM posts',
+    );
+  });
+
+  test('views come after the collections and views they select from', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf(
+        view('top', 'SELECT id FROM stats'),
+        view('stats', 'SELECT p.id FROM posts p JOIN tags t ON t.id = p.tag'),
+        { ...posts, schema: [...posts.schema!, { name: 'tag', type: 'text' }] },
+        { name: 'tags', schema: [] },
+      ),
+      schemaOf(posts),
+    );
+
+    expect(
+      plan.safe.map((operation) => `${operation.kind}:${operation.collection}`),
+    ).toEqual([
+      'createCollection:tags',
+      'addField:posts',
+      'createCollection:stats',
+      'createCollection:top',
+    ]);
+  });
+});
+
+describe('SchemaDiff auth options', () => {
+  const users = (auth: SchemaCollection['auth']): SchemaCollection => ({
+    name: 'users',
+    type: 'auth',
+    schema: [],
+    auth,
+  });
+  const current = schemaOf(
+    users({
+      passwordAuth: { enabled: true, identityFields: ['email'] },
+      oauth2: { enabled: true, providers: [{ name: 'google' }] },
+      authToken: { duration: 1209600 },
+    }),
+  );
+
+  test('compares only the settings the schema declares', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf(users({ passwordAuth: { enabled: true } })),
+      current,
+    );
+    expect([...plan.safe, ...plan.unsafe]).toEqual([]);
+  });
+
+  test('explains safe changes in the summary', () => {
+    const plan = SchemaDiff.buildDiffPlan(
+      schemaOf(
+        users({
+          authToken: { duration: 3600 },
+          oauth2: { providers: [{ name: 'google' }, { name: 'github' }] },
+        }),
+      ),
+      current,
+    );
+
+    expect(plan.unsafe).toEqual([]);
+    expect(plan.safe.map((operation) => operation.summary)).toEqual([
+      "Update auth options for collection 'users': authToken.duration: 1209600 → 3600, oauth2 providers: add github",
+    ]);
+  });
+
+  test('changes that can lock users out are unsafe', () => {
+    for (const auth of [
+      { passwordAuth: { enabled: false } },
+      { passwordAuth: { identityFields: ['username'] } },
+      { oauth2: { providers: [] } },
+      { mfa: { enabled: true } },
+    ]) {
+      const plan = SchemaDiff.buildDiffPlan(schemaOf(users(auth)), current);
+      expect(kinds(plan.unsafe)).toEqual(['updateAuth']);
+    }
+  });
+});
+
+describe('schema diff', () => {
+  const snapshot = schemaOf({
+    name: 'posts',
+    schema: [{ name: 'title', type: 'text' }],
+  });
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pocketvex-'));
+    await writeFile(join(dir, 'snapshot.json'), JSON.stringify(snapshot));
+    await writeFile(
+      join(dir, 'schema.js'),
+      `export const schema = ${JSON.stringify(
+        schemaOf({
+          name: 'posts',
+          schema: [
+            { name: 'title', type: 'text' },
+            { name: 'body', type: 'text' },
+          ],
+        }),
+      )};`,
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const run = (...args: string[]) =>
+    Bun.spawnSync(
+      [
+        process.execPath,
+        join(import.meta.dir, '../cli/index.ts'),
+        'schema',
+        'diff',
+        ...args,
+      ],
+      { cwd: dir, env: { ...process.env, CI: '1' } },
+    );
+
+  test('prints the plan between a snapshot and a schema module as JSON', () => {
+    const result = run(
+      '--current',
+      'snapshot.json',
+      '--desired',
+      'schema.js',
+      '--json',
+    );
+
+    expect(result.exitCode).toBe(0);
+    const plan = JSON.parse(result.stdout.toString());
+    expect(
+      plan.safe.map((operation: { summary: string }) => operation.summary),
+    ).toEqual(["Add field 'body' to collection 'posts'"]);
+  }, 30000);
+
+  test('--exit-code fails only when the schemas differ', () => {
+    const diff = (desired: string) =>
+      run('--current', 'snapshot.json', '--desired', desired, '--exit-code')
+        .exitCode;
+
+    expect(diff('schema.js')).toBe(1);
+    expect(diff('snapshot.json')).toBe(0);
+  }, 30000);
+});
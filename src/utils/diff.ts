@@ -4,62 +4,207 @@
  */
 
 import type {
+  AssistedStrategy,
+  SchemaAuthOptions,
   SchemaDefinition,
   SchemaCollection,
   SchemaField,
   MigrationPlan,
   MigrationOperation,
 } from '../types/schema.js';
+import { SchemaRelations } from './relations.js';
 
 export class SchemaDiff {
   /**
    * Compare desired schema against current PocketBase schema
    */
   static buildDiffPlan(
-    desired: SchemaDefinition,
-    current: SchemaDefinition,
+    desiredSchema: SchemaDefinition,
+    currentSchema: SchemaDefinition,
   ): MigrationPlan {
     const safe: MigrationOperation[] = [];
+    const assisted: MigrationOperation[] = [];
     const unsafe: MigrationOperation[] = [];
 
+    // Compare relations by target name so host-specific IDs are not reported as
+    // changes; desired IDs win when both sides know the same ID
+    const known = [...currentSchema.collections, ...desiredSchema.collections];
+    const desired = SchemaRelations.toNames(desiredSchema, known);
+    const current = SchemaRelations.toNames(currentSchema, known);
+
     // Normalize collections by name for comparison
     const desiredByName = this.normalizeCollectionsByName(desired.collections);
     const currentByName = this.normalizeCollectionsByName(current.collections);
 
+    // Renamed collections keep their records, so pair them up before matching by name
+    const renameOps: MigrationOperation[] = [];
+    const viewOps: MigrationOperation[] = [];
+    const renames = this.detectRenames(
+      desired.collections,
+      current.collections,
+    );
+    for (const { from, to } of renames) {
+      const desiredCol = desiredByName[to]!;
+      const currentCol = currentByName[from]!;
+
+      renameOps.push({
+        kind: 'renameCollection',
+        summary: `Rename collection '${from}' → '${to}'`,
+        collection: to,
+        payload: { from, to, current: currentCol },
+      });
+
+      // Remaining changes are diffed against the collection's new name
+      this.compareCollections(
+        to,
+        desiredCol,
+        currentCol,
+        safe,
+        assisted,
+        unsafe,
+      );
+      this.compareViewQuery(to, desiredCol, currentCol, viewOps);
+
+      delete desiredByName[to];
+      delete currentByName[from];
+    }
+
     // Find collections to create, update, or delete
     const allCollectionNames = new Set([
       ...Object.keys(desiredByName),
       ...Object.keys(currentByName),
     ]);
+    const creates: SchemaCollection[] = [];
+    const deletes: SchemaCollection[] = [];
 
     for (const name of allCollectionNames) {
       const desiredCol = desiredByName[name];
       const currentCol = currentByName[name];
 
       if (!currentCol && desiredCol) {
-        // Create new collection
-        safe.push({
-          kind: 'createCollection',
-          summary: `Create collection '${name}'`,
-          collection: name,
-          payload: desiredCol,
-        });
+        creates.push(desiredCol);
       } else if (currentCol && !desiredCol) {
-        // Delete collection (unsafe - data loss)
-        unsafe.push({
-          kind: 'deleteCollection',
-          summary: `Delete collection '${name}' (WARNING: data loss)`,
-          collection: name,
-          payload: currentCol,
-          requiresDataMigration: true,
-        });
+        deletes.push(currentCol);
       } else if (desiredCol && currentCol) {
         // Update existing collection
-        this.compareCollections(name, desiredCol, currentCol, safe, unsafe);
+        this.compareCollections(
+          name,
+          desiredCol,
+          currentCol,
+          safe,
+          assisted,
+          unsafe,
+        );
+        this.compareViewQuery(name, desiredCol, currentCol, viewOps);
       }
     }
 
-    return { safe, unsafe };
+    // Renames and creates come first so field changes can reference them
+    const views = creates.filter((collection) => collection.type === 'view');
+    safe.unshift(
+      ...renameOps,
+      ...this.orderCreates(creates.filter((c) => c.type !== 'view')),
+    );
+
+    // Views select from other collections, so they come after every change
+    // to the collections they read, and after the views they read
+    const viewChanges = new Map<SchemaCollection, MigrationOperation>();
+    for (const view of views) {
+      viewChanges.set(view, {
+        kind: 'createCollection',
+        summary: `Create view collection '${view.name}'`,
+        collection: view.name,
+        payload: view,
+      });
+    }
+    for (const operation of viewOps) {
+      const view = desired.collections.find(
+        (collection) => collection.name === operation.collection,
+      )!;
+      viewChanges.set(view, operation);
+    }
+    for (const view of this.sortByRelations([...viewChanges.keys()]).ordered) {
+      safe.push(viewChanges.get(view)!);
+    }
+
+    // Delete collections that hold relations before the collections they point at
+    const { ordered } = this.sortByRelations(deletes);
+    for (const collection of ordered.reverse()) {
+      // Delete collection (unsafe - data loss)
+      unsafe.push({
+        kind: 'deleteCollection',
+        summary: `Delete collection '${collection.name}' (WARNING: data loss)`,
+        collection: collection.name,
+        payload: collection,
+        requiresDataMigration: true,
+      });
+    }
+
+    return { safe, assisted, unsafe };
+  }
+
+  /**
+   * Build the operation that reverts `operation`, using the state captured in
+   * its payload. Returns null when the previous state is unknown.
+   */
+  static invertOperation(
+    operation: MigrationOperation,
+  ): MigrationOperation | null {
+    const { kind, collection, field, payload } = operation;
+    const revert = (
+      next: Omit<MigrationOperation, 'summary'>,
+    ): MigrationOperation => ({
+      ...next,
+      summary: `Revert: ${operation.summary}`,
+    });
+
+    switch (kind) {
+      case 'createCollection':
+        return revert({ kind: 'deleteCollection', collection, payload });
+      case 'deleteCollection':
+        return revert({ kind: 'createCollection', collection, payload });
+      case 'renameCollection':
+        return revert({
+          kind: 'renameCollection',
+          collection: payload.from,
+          payload: { ...payload, from: payload.to, to: payload.from },
+        });
+      case 'addField':
+        return revert({ kind: 'deleteField', collection, field, payload });
+      case 'deleteField':
+        return revert({ kind: 'addField', collection, field, payload });
+      case 'renameField':
+        return revert({
+          kind: 'renameField',
+          collection,
+          field: payload.from,
+          payload: { ...payload, from: payload.to, to: payload.from },
+        });
+      case 'updateField':
+      case 'typeChange':
+        return revert({
+          kind,
+          collection,
+          field,
+          payload: { desired: payload.current, current: payload.desired },
+        });
+      case 'addIndex':
+        return revert({ kind: 'deleteIndex', collection, payload });
+      case 'deleteIndex':
+        return revert({ kind: 'addIndex', collection, payload });
+      case 'updateRules':
+      case 'updateAuth':
+      case 'updateViewQuery':
+        if (operation.previous === undefined) return null;
+        return revert({
+          kind,
+          collection,
+          payload: operation.previous,
+          previous: payload,
+        });
+      default:
+        return null;
+    }
   }
 
   /**
@@ -70,11 +215,18 @@ export class SchemaDiff {
     desired: SchemaCollection,
     current: SchemaCollection,
     safe: MigrationOperation[],
+    assisted: MigrationOperation[],
     unsafe: MigrationOperation[],
   ) {
     // Compare rules
     this.compareRules(name, desired.rules, current.rules, safe);
 
+    // Compare auth settings
+    this.compareAuth(name, desired.auth, current.auth, safe, unsafe);
+
+    // View fields follow from the query and views have no indexes
+    if (desired.type === 'view') return;
+
     // Compare indexes
     this.compareIndexes(
       name,
@@ -90,10 +242,36 @@ export class SchemaDiff {
       desired.schema || [],
       current.schema || [],
       safe,
+      assisted,
       unsafe,
     );
   }
 
+  /**
+   * Compare the query of a view collection. Views hold no records of their
+   * own, so a new query is safe to apply.
+   */
+  private static compareViewQuery(
+    name: string,
+    desired: SchemaCollection,
+    current: SchemaCollection,
+    viewOps: MigrationOperation[],
+  ) {
+    if (desired.type !== 'view' || desired.viewQuery === undefined) return;
+
+    const normalize = (query?: string) =>
+      (query || '').replace(/\s+/g, ' ').replace(/;\s*$/, '').trim();
+    if (normalize(desired.viewQuery) === normalize(current.viewQuery)) return;
+
+    viewOps.push({
+      kind: 'updateViewQuery',
+      summary: `Update view query for collection '${name}'`,
+      collection: name,
+      payload: desired.viewQuery,
+      previous: current.viewQuery,
+    });
+  }
+
   /**
    * Compare collection rules
    */
@@ -120,16 +298,167 @@ export class SchemaDiff {
       }
     }
 
+    // Auth collection rules are only compared when declared. An empty auth
+    // rule lets everyone authenticate, so it is not treated like null.
+    for (const ruleType of ['auth', 'manage'] as const) {
+      if (desired[ruleType] === undefined) continue;
+      if ((desired[ruleType] ?? null) !== (current?.[ruleType] ?? null)) {
+        hasChanges = true;
+      }
+    }
+
     if (hasChanges) {
       safe.push({
         kind: 'updateRules',
         summary: `Update rules for collection '${name}'`,
         collection: name,
         payload: desired,
+        previous: current || {},
       });
     }
   }
 
+  /**
+   * Compare the auth settings declared in the schema
+   */
+  private static compareAuth(
+    name: string,
+    desired: SchemaAuthOptions | undefined,
+    current: SchemaAuthOptions | undefined,
+    safe: MigrationOperation[],
+    unsafe: MigrationOperation[],
+  ) {
+    if (!desired) return;
+
+    const changes: string[] = [];
+    let isUnsafe = false;
+    const format = (value: unknown) => {
+      const text = JSON.stringify(value) ?? 'unset';
+      return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+    };
+
+    for (const [path, desiredValue] of this.declaredSettings(desired)) {
+      const currentValue = path
+        .split('.')
+        .reduce<any>((value, key) => value?.[key], current);
+
+      // Providers are matched by name; their secrets may be masked by the host
+      if (path === 'oauth2.providers') {
+        const desiredNames = (desiredValue || []).map((p: any) => p.name);
+        const currentNames = (currentValue || []).map((p: any) => p.name);
+        const removed = currentNames.filter(
+          (n: string) => !desiredNames.includes(n),
+        );
+        const added = desiredNames.filter(
+          (n: string) => !currentNames.includes(n),
+        );
+        if (added.length > 0) {
+          changes.push(`oauth2 providers: add ${added.join(', ')}`);
+        }
+        if (removed.length > 0) {
+          isUnsafe = true;
+          changes.push(
+            `oauth2 providers: remove ${removed.join(', ')} (unsafe)`,
+          );
+        }
+        continue;
+      }
+
+      if (JSON.stringify(desiredValue) === JSON.stringify(currentValue)) {
+        continue;
+      }
+
+      const unsafeChange = this.isUnsafeAuthChange(
+        path,
+        currentValue,
+        desiredValue,
+      );
+      if (unsafeChange) isUnsafe = true;
+      changes.push(
+        `${path}: ${format(currentValue)} → ${format(desiredValue)}${
+          unsafeChange ? ' (unsafe)' : ''
+        }`,
+      );
+    }
+
+    if (changes.length === 0) return;
+
+    const operation: MigrationOperation = {
+      kind: 'updateAuth',
+      summary: `Update auth options for collection '${name}': ${changes.join(
+        ', ',
+      )}`,
+      collection: name,
+      payload: desired,
+      previous: current || {},
+      requiresDataMigration: isUnsafe,
+    };
+
+    if (isUnsafe) {
+      unsafe.push(operation);
+    } else {
+      safe.push(operation);
+    }
+  }
+
+  /**
+   * Flatten declared auth settings into dotted paths; arrays are compared whole
+   */
+  private static declaredSettings(
+    settings: Record<string, any>,
+    prefix = '',
+  ): [string, any][] {
+    return Object.entries(settings).flatMap(([key, value]) => {
+      const path = `${prefix}${key}`;
+      if (value === undefined) return [];
+      if (path === 'oauth2.providers' || Array.isArray(value)) {
+        return [[path, value] as [string, any]];
+      }
+      if (value && typeof value === 'object') {
+        return this.declaredSettings(value, `${path}.`);
+      }
+      return [[path, value] as [string, any]];
+    });
+  }
+
+  /**
+   * Auth changes that can lock existing users out are unsafe
+   */
+  private static isUnsafeAuthChange(
+    path: string,
+    current: any,
+    desired: any,
+  ): boolean {
+    switch (path) {
+      // Disabling a sign-in method
+      case 'passwordAuth.enabled':
+      case 'oauth2.enabled':
+      case 'otp.enabled':
+        return current === true && desired === false;
+      // Requiring a second factor, or a verified/complete account
+      case 'mfa.enabled':
+      case 'onlyVerified':
+      case 'requireEmail':
+        return !current && desired === true;
+      case 'passwordAuth.identityFields':
+        return (current || []).some(
+          (field: string) => !(desired || []).includes(field),
+        );
+      case 'onlyEmailDomains':
+        return (
+          (desired || []).length > 0 &&
+          ((current || []).length === 0 ||
+            (current || []).some((domain: string) => !desired.includes(domain)))
+        );
+      case 'exceptEmailDomains':
+        return (desired || []).some(
+          (domain: string) => !(current || []).includes(domain),
+        );
+      default:
+        return false;
+    }
+  }
+
   /**
    * Compare collection indexes
    */
@@ -176,11 +505,42 @@ export class SchemaDiff {
     desired: SchemaField[],
     current: SchemaField[],
     safe: MigrationOperation[],
+    assisted: MigrationOperation[],
     unsafe: MigrationOperation[],
   ) {
     const desiredFields = this.normalizeFieldsByName(desired || []);
     const currentFields = this.normalizeFieldsByName(current || []);
 
+    // Renamed fields keep their data, so pair them up before matching by name
+    const renames = this.detectRenames(desired || [], current || []);
+    for (const { from, to } of renames) {
+      const desiredField = desiredFields[to]!;
+      const currentField = currentFields[from]!;
+
+      safe.push({
+        kind: 'renameField',
+        summary: `Rename field '${from}' → '${to}' in collection '${name}'`,
+        collection: name,
+        field: to,
+        payload: { from, to, current: currentField },
+      });
+
+      // Any other change to the renamed field is diffed against its new name
+      this.compareField(
+        name,
+        to,
+        desiredField,
+        { ...currentField, name: to },
+        safe,
+        assisted,
+        unsafe,
+        from,
+      );
+
+      delete desiredFields[to];
+      delete currentFields[from];
+    }
+
     const allFieldNames = new Set([
       ...Object.keys(desiredFields),
       ...Object.keys(currentFields),
@@ -217,12 +577,52 @@ export class SchemaDiff {
           desiredField,
           currentField,
           safe,
+          assisted,
           unsafe,
         );
       }
     }
   }
 
+  /**
+   * Detect renamed collections or fields by stable ID or an explicit `renamedFrom` hint
+   */
+  private static detectRenames<
+    T extends { id?: string; name: string; renamedFrom?: string },
+  >(desired: T[], current: T[]): { from: string; to: string }[] {
+    const desiredNames = new Set(desired.map((item) => item.name));
+    const currentNames = new Set(current.map((item) => item.name));
+    const claimed = new Set<string>();
+    const renames: { from: string; to: string }[] = [];
+
+    for (const item of desired) {
+      // Anything that still exists under its desired name is not a rename
+      if (currentNames.has(item.name)) continue;
+
+      const byId = item.id
+        ? current.find((candidate) => candidate.id === item.id)
+        : undefined;
+      const byHint = item.renamedFrom
+        ? current.find((candidate) => candidate.name === item.renamedFrom)
+        : undefined;
+      const source = byId || byHint;
+
+      // The old name must be gone from the desired schema and not already paired
+      if (
+        !source ||
+        desiredNames.has(source.name) ||
+        claimed.has(source.name)
+      ) {
+        continue;
+      }
+
+      claimed.add(source.name);
+      renames.push({ from: source.name, to: item.name });
+    }
+
+    return renames;
+  }
+
   /**
    * Compare individual field changes
    */
@@ -232,9 +632,13 @@ export class SchemaDiff {
     desired: SchemaField,
     current: SchemaField,
     safe: MigrationOperation[],
+    assisted: MigrationOperation[],
     unsafe: MigrationOperation[],
+    // Name on the server while the collection's batch runs, before any rename
+    currentName = current.name,
   ) {
     const changes: string[] = [];
+    const strategies: AssistedStrategy[] = [];
     let isUnsafe = false;
 
     // Type changes are always unsafe
@@ -247,7 +651,19 @@ export class SchemaDiff {
     const desiredRequired = Boolean(desired.required);
     const currentRequired = Boolean(current.required);
     if (desiredRequired !== currentRequired) {
-      if (desiredRequired && !currentRequired) {
+      if (desiredRequired && desired.default !== undefined) {
+        // Records without a value get the declared default first
+        strategies.push({
+          kind: 'backfill',
+          field: currentName,
+          value: desired.default,
+        });
+        changes.push(
+          `required: false → true (assisted: backfill empty values with ${JSON.stringify(
+            desired.default,
+          )})`,
+        );
+      } else if (desiredRequired && !currentRequired) {
         // Making field required without default is unsafe
         isUnsafe = true;
         changes.push('required: false → true (no default value)');
@@ -260,7 +676,13 @@ export class SchemaDiff {
     const desiredUnique = Boolean(desired.unique);
     const currentUnique = Boolean(current.unique);
     if (desiredUnique !== currentUnique) {
-      if (desiredUnique && !currentUnique) {
+      if (desiredUnique && this.DEDUPE_TYPES.includes(desired.type)) {
+        // Duplicate text values can be made unique without losing them
+        strategies.push({ kind: 'dedupe', field: currentName });
+        changes.push(
+          'unique: false → true (assisted: suffix duplicate values with the record ID)',
+        );
+      } else if (desiredUnique && !currentUnique) {
         // Making field unique is unsafe if data has duplicates
         isUnsafe = true;
         changes.push('unique: false → true (may have duplicates)');
@@ -270,15 +692,9 @@ export class SchemaDiff {
     }
 
     // Options changes
-    const optionChanges = this.compareFieldOptions(desired.options, current.options);
-    if (optionChanges.length > 0) {
-      const hasUnsafeOptions = optionChanges.some(
-        (change) => change.includes('tighten') || change.includes('reduce'),
-      );
-      if (hasUnsafeOptions) {
-        isUnsafe = true;
-      }
-      changes.push(...optionChanges);
+    for (const change of this.compareFieldOptions(desired, current)) {
+      if (change.unsafe) isUnsafe = true;
+      changes.push(change.description);
     }
 
     if (changes.length > 0) {
@@ -295,55 +711,357 @@ export class SchemaDiff {
 
       if (isUnsafe) {
         unsafe.push(operation);
+      } else if (strategies.length > 0) {
+        assisted.push({ ...operation, strategies });
       } else {
         safe.push(operation);
       }
     }
   }
 
+  /** Field types whose duplicate values the dedupe strategy can rewrite */
+  private static readonly DEDUPE_TYPES: SchemaField['type'][] = [
+    'text',
+    'email',
+    'url',
+    'editor',
+  ];
+
   /**
-   * Compare field options for changes
+   * Compare the options the desired field declares. Options it leaves out keep
+   * the server's value and are not reported.
    */
-  private static compareFieldOptions(desired?: any, current?: any): string[] {
-    const changes: string[] = [];
+  private static compareFieldOptions(
+    desiredField: SchemaField,
+    currentField: SchemaField,
+  ): { description: string; unsafe: boolean }[] {
+    const changes: { description: string; unsafe: boolean }[] = [];
+    const desired = desiredField.options || {};
+    const current = currentField.options || {};
+    const type = desiredField.type;
 
-    // Treat missing/empty as equivalent unless desired explicitly provides values
-    const isEmpty = (obj: any) =>
-      obj == null || (typeof obj === 'object' && Object.keys(obj).length === 0);
+    // Retargeting a relation leaves existing records pointing at the old collection
+    const desiredTarget = desired.collection ?? desired.collectionId;
+    const currentTarget = current.collection ?? current.collectionId;
+    if (desiredTarget && currentTarget && desiredTarget !== currentTarget) {
+      changes.push({
+        description: `collection: ${currentTarget} → ${desiredTarget} (unsafe: existing relations point at the old collection)`,
+        unsafe: true,
+      });
+    }
 
-    if (isEmpty(desired) && isEmpty(current)) return changes;
-    if (isEmpty(desired) && !isEmpty(current)) return changes; // ignore default/no-op differences
-    if (!isEmpty(desired) && isEmpty(current)) {
-      // desired has options but current doesn't: only report when it actually restricts
-      // Let the detailed checks below add messages for specific keys
-      // No generic message here to avoid noise.
+    for (const [option, to] of Object.entries(desired)) {
+      if (
+        to === undefined ||
+        option === 'collection' ||
+        option === 'collectionId'
+      ) {
+        continue;
+      }
+      const from = current[option];
+      if (this.sameOptionValue(option, type, from, to)) continue;
+
+      const { unsafe, reason } = this.classifyOptionChange(
+        option,
+        type,
+        from,
+        to,
+      );
+      const format = (value: any) =>
+        value !== false && this.isUnsetOption(option, type, value)
+          ? 'none'
+          : this.formatOptionValue(value);
+      changes.push({
+        description: `${option}: ${format(from)} → ${format(to)} (${
+          unsafe ? 'unsafe: ' : ''
+        }${reason})`,
+        unsafe,
+      });
     }
 
-    // Check for tightening constraints (unsafe)
-    if (desired?.min !== undefined && current?.min !== undefined && desired.min > current.min) {
-      changes.push(`min: ${current.min} → ${desired.min} (tighten)`);
+    return changes;
+  }
+
+  /**
+   * Whether an option value means "not set": empty values, false, and 0 for
+   * sizes and lengths
+   */
+  private static isUnsetOption(
+    option: string,
+    type: SchemaField['type'],
+    value: any,
+  ): boolean {
+    if (value === undefined || value === null || value === '') return true;
+    if (value === false) return true;
+    if (Array.isArray(value)) return value.length === 0;
+    const isLength =
+      ['maxSize', 'minSelect', 'maxSelect'].includes(option) ||
+      (['min', 'max'].includes(option) && ['text', 'password'].includes(type));
+    return value === 0 && isLength;
+  }
+
+  private static sameOptionValue(
+    option: string,
+    type: SchemaField['type'],
+    from: any,
+    to: any,
+  ): boolean {
+    const fromUnset = this.isUnsetOption(option, type, from);
+    const toUnset = this.isUnsetOption(option, type, to);
+    if (fromUnset || toUnset) return fromUnset && toUnset;
+    // Lists are compared as sets
+    if (Array.isArray(from) && Array.isArray(to)) {
+      return (
+        from.length === to.length && to.every((value) => from.includes(value))
+      );
     }
-    if (desired?.max !== undefined && current?.max !== undefined && desired.max < current.max) {
-      changes.push(`max: ${current.max} → ${desired.max} (tighten)`);
+    return JSON.stringify(from) === JSON.stringify(to);
+  }
+
+  private static formatOptionValue(value: any): string {
+    const text = Array.isArray(value) ? value.join(', ') : String(value);
+    return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+  }
+
+  /**
+   * Decide whether an option change can invalidate or lose existing data, and
+   * explain why
+   */
+  private static classifyOptionChange(
+    option: string,
+    type: SchemaField['type'],
+    from: any,
+    to: any,
+  ): { unsafe: boolean; reason: string } {
+    const unset = (value: any) => this.isUnsetOption(option, type, value);
+    const list = (value: any): any[] => (Array.isArray(value) ? value : []);
+    const added = list(to).filter((v) => !list(from).includes(v));
+    const removed = list(from).filter((v) => !list(to).includes(v));
+    const value = (v: any) => (type === 'date' ? Date.parse(v) : Number(v));
+    const risky = (reason: string) => ({ unsafe: true, reason });
+    const fine = (reason: string) => ({ unsafe: false, reason });
+
+    switch (option) {
+      case 'min':
+      case 'minSelect':
+        return !unset(to) && (unset(from) || value(to) > value(from))
+          ? risky('existing values below the new minimum become invalid')
+          : fine('loosens the minimum');
+
+      case 'max':
+      case 'maxSize':
+        return !unset(to) && (unset(from) || value(to) < value(from))
+          ? risky('existing values above the new limit become invalid')
+          : fine('loosens the limit');
+
+      case 'maxSelect':
+        if (!unset(to) && (unset(from) || to < from)) {
+          return to <= 1
+            ? risky('multiple values are cut down to one')
+            : risky('records with more values become invalid');
+        }
+        return (from ?? 1) <= 1 && to > 1
+          ? fine('values are returned as arrays from now on')
+          : fine('allows more values');
+
+      case 'pattern':
+        return unset(to)
+          ? fine('removes the pattern')
+          : risky('existing values may not match');
+
+      case 'values':
+        return removed.length > 0
+          ? risky(`records using ${removed.join(', ')} become invalid`)
+          : fine('adds allowed values');
+
+      case 'mimeTypes':
+      case 'onlyDomains':
+        return !unset(to) && (unset(from) || removed.length > 0)
+          ? risky('existing values outside the allowed list become invalid')
+          : fine('widens the allowed list');
+
+      case 'exceptDomains':
+        return added.length > 0
+          ? risky(`existing values on ${added.join(', ')} become invalid`)
+          : fine('allows more domains');
+
+      case 'onlyInt':
+        return to
+          ? risky('existing decimal values become invalid')
+          : fine('allows decimal values');
+
+      case 'cascadeDelete':
+        return to
+          ? risky('deleting a related record will delete these records')
+          : fine('related deletes no longer remove these records');
+
+      case 'primaryKey':
+        return risky('changes how records are identified');
+
+      case 'protected':
+        return fine(
+          to
+            ? 'downloads require a file token'
+            : 'files become publicly downloadable',
+        );
+
+      case 'hidden':
+        return fine(
+          to ? 'left out of API responses' : 'returned in API responses',
+        );
+
+      case 'thumbs':
+        return fine('thumbnails are generated on request');
+
+      case 'cost':
+        return fine('applies to passwords set from now on');
+
+      case 'onCreate':
+      case 'onUpdate':
+        return fine('applies to records saved from now on');
+
+      case 'autogeneratePattern':
+        return fine('applies to records created from now on');
+
+      default:
+        return fine('does not affect stored values');
+    }
+  }
+
+  /**
+   * Create new collections after the collections their relations point at.
+   * Relation fields that close a cycle (including self-relations) are left out
+   * of the create, together with the indexes and rules that mention them, and
+   * added back once every collection exists.
+   */
+  private static orderCreates(
+    collections: SchemaCollection[],
+  ): MigrationOperation[] {
+    const { ordered, deferred } = this.sortByRelations(collections);
+    const creates: MigrationOperation[] = [];
+    const secondPass: MigrationOperation[] = [];
+
+    for (const collection of ordered) {
+      const fields = deferred.get(collection);
+      if (!fields) {
+        creates.push({
+          kind: 'createCollection',
+          summary: `Create collection '${collection.name}'`,
+          collection: collection.name,
+          payload: collection,
+        });
+        continue;
+      }
+
+      const names = [...fields].map((field) => field.name);
+      const mentions = (text?: string) =>
+        !!text && names.some((name) => new RegExp(`\\b${name}\\b`).test(text));
+      const deferredIndexes = (collection.indexes || []).filter((index) =>
+        mentions(index),
+      );
+      const rules = collection.rules || {};
+      const deferRules = Object.values(rules).some((rule) => mentions(rule));
+
+      creates.push({
+        kind: 'createCollection',
+        summary: `Create collection '${collection.name}' (without ${names
+          .map((name) => `'${name}'`)
+          .join(', ')} until its relations exist)`,
+        collection: collection.name,
+        payload: {
+          ...collection,
+          schema: (collection.schema || []).filter(
+            (field) => !fields.has(field),
+          ),
+          indexes: (collection.indexes || []).filter(
+            (index) => !deferredIndexes.includes(index),
+          ),
+          rules: deferRules ? {} : collection.rules,
+        },
+      });
+
+      for (const field of fields) {
+        secondPass.push({
+          kind: 'addField',
+          summary: `Add relation field '${field.name}' to collection '${collection.name}'`,
+          collection: collection.name,
+          field: field.name,
+          payload: field,
+        });
+      }
+      for (const index of deferredIndexes) {
+        secondPass.push({
+          kind: 'addIndex',
+          summary: `Add index to collection '${collection.name}': ${index}`,
+          collection: collection.name,
+          payload: index,
+        });
+      }
+      if (deferRules) {
+        secondPass.push({
+          kind: 'updateRules',
+          summary: `Update rules for collection '${collection.name}'`,
+          collection: collection.name,
+          payload: rules,
+          previous: {},
+        });
+      }
     }
 
-    // Check for pattern changes
-    if (desired?.pattern !== undefined && current?.pattern !== undefined && desired.pattern !== current.pattern) {
-      changes.push(`pattern: changed`);
+    return [...creates, ...secondPass];
+  }
+
+  /**
+   * Topologically sort collections so relation targets, and the collections
+   * a view selects from, come before the collections that reference them.
+   * Only references between the given collections count; relation edges that
+   * would close a cycle are returned as deferred fields instead.
+   */
+  private static sortByRelations(collections: SchemaCollection[]): {
+    ordered: SchemaCollection[];
+    deferred: Map<SchemaCollection, Set<SchemaField>>;
+  } {
+    const byKey = new Map<string, SchemaCollection>();
+    for (const collection of collections) {
+      byKey.set(collection.name, collection);
+      if (collection.id) byKey.set(collection.id, collection);
     }
 
-    // Check for select values changes
-    if (desired?.values && current?.values) {
-      const desiredValues = new Set(desired.values);
-      const currentValues = new Set(current.values);
+    const state = new Map<SchemaCollection, 'visiting' | 'done'>();
+    const ordered: SchemaCollection[] = [];
+    const deferred = new Map<SchemaCollection, Set<SchemaField>>();
+
+    const visit = (collection: SchemaCollection) => {
+      state.set(collection, 'visiting');
 
-      const removed = [...currentValues].filter((v) => !desiredValues.has(v));
-      if (removed.length > 0) {
-        changes.push(`select values: removed ${removed.join(', ')} (unsafe)`);
+      for (const field of collection.schema || []) {
+        const key = SchemaRelations.target(field);
+        const target = key ? byKey.get(key) : undefined;
+        if (!target) continue;
+
+        if (state.get(target) === 'visiting') {
+          const fields = deferred.get(collection) || new Set<SchemaField>();
+          fields.add(field);
+          deferred.set(collection, fields);
+        } else if (!state.has(target)) {
+          visit(target);
+        }
+      }
+
+      for (const source of SchemaRelations.viewSources(collection)) {
+        const target = byKey.get(source);
+        if (target && !state.has(target)) visit(target);
       }
+
+      state.set(collection, 'done');
+      ordered.push(collection);
+    };
+
+    for (const collection of collections) {
+      if (!state.has(collection)) visit(collection);
     }
 
-    return changes;
+    return { ordered, deferred };
   }
 
   /**
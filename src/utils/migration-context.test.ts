@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeHost } from '../test/fake-host.js';
+import { createMigrationContext } from './migration-context.js';
+
+const index = 'CREATE INDEX `idx_title` ON `posts` (`title`)';
+
+const hostWithPosts = () =>
+  new FakeHost([
+    {
+      name: 'posts',
+      fields: [{ id: 'f1', name: 'title', type: 'text', required: false }],
+      indexes: [index],
+    },
+  ]);
+
+describe('ctx.op', () => {
+  test('changes fields through the client', async () => {
+    const host = hostWithPosts();
+    const ctx = createMigrationContext(host.client());
+
+    await ctx.op.addField('posts', { name: 'body', type: 'text' });
+    await ctx.op.updateField('posts', 'title', { required: true });
+
+    expect(host.collection('posts')?.fields).toMatchObject([
+      { name: 'title', required: true },
+      { name: 'body', type: 'text' },
+    ]);
+  });
+
+  test('captures what destructive helpers remove so they can be reverted', async () => {
+    const host = hostWithPosts();
+    const payloads: unknown[] = [];
+    const ctx = createMigrationContext(host.client(), async (operation) => {
+      payloads.push(operation.payload);
+    });
+
+    await ctx.op.deleteField('posts', 'title');
+    await ctx.op.dropCollection('posts');
+
+    expect(payloads).toMatchObject([
+      { id: 'f1', name: 'title', type: 'text' },
+      { name: 'posts', schema: [{ name: 'title' }], indexes: [index] },
+    ]);
+  });
+});
+
+describe('ctx.sql.run', () => {
+  test('routes index statements to the owning collection', async () => {
+    const host = hostWithPosts();
+    const ctx = createMigrationContext(host.client());
+
+    await ctx.sql.run('DROP INDEX idx_title;');
+    expect(host.collection('posts')?.indexes).toEqual([]);
+
+    await ctx.sql.run(index);
+    expect(host.collection('posts')?.indexes).toEqual([index]);
+  });
+
+  test('drops missing indexes only with IF EXISTS', async () => {
+    const ctx = createMigrationContext(hostWithPosts().client());
+
+    await ctx.sql.run('DROP INDEX IF EXISTS idx_missing');
+    await expect(ctx.sql.run('DROP INDEX idx_missing')).rejects.toThrow(
+      "Index 'idx_missing' not found",
+    );
+  });
+
+  test('rejects statements PocketBase cannot run', async () => {
+    const ctx = createMigrationContext(hostWithPosts().client());
+
+    await expect(ctx.sql.run('UPDATE posts SET title = 1')).rejects.toThrow(
+      "only CREATE INDEX and DROP INDEX statements can be run (got 'UPDATE posts SET ...')",
+    );
+  });
+});
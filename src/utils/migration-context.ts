@@ -0,0 +1,159 @@
+/**
+ * Migration context
+ * Runtime implementation of the `ctx` helpers passed to authored migrations
+ */
+
+import type { MigrationContext } from '../types/migration.js';
+import type { MigrationOperation } from '../types/schema.js';
+import type { PocketBaseClient } from './pocketbase.js';
+import { createMigrationData } from './migration-data.js';
+
+const CREATE_INDEX =
+  /^\s*CREATE\s+(?:UNIQUE\s+)?INDEX\s+(?:IF\s+NOT\s+EXISTS\s+)?[`"']?(\w+)[`"']?\s+ON\s+[`"']?(\w+)[`"']?/i;
+const DROP_INDEX = /^\s*DROP\s+INDEX\s+(IF\s+EXISTS\s+)?[`"']?(\w+)[`"']?/i;
+
+/**
+ * Build a migration context whose helpers apply operations through the client.
+ * `apply` can wrap each operation, e.g. to journal it; `run` is set for
+ * `ctx.step` and performs the operation instead of the client.
+ */
+export function createMigrationContext(
+  client: PocketBaseClient,
+  apply: (
+    operation: MigrationOperation,
+    run?: () => Promise<void>,
+  ) => Promise<void> = (operation, run) =>
+    run ? run() : client.applyOperation(operation),
+): MigrationContext {
+  // Destructive helpers capture the state they replace so they can be inverted
+  const findCollection = async (name: string) => {
+    const schema = await client.fetchCurrentSchema();
+    return schema.collections.find((collection) => collection.name === name);
+  };
+  const findField = async (collection: string, field: string) =>
+    (await findCollection(collection))?.schema?.find((f) => f.name === field);
+
+  return {
+    op: {
+      createCollection: (name, opts = {}) =>
+        apply({
+          kind: 'createCollection',
+          summary: `Create collection '${name}'`,
+          collection: name,
+          payload: { name, type: opts.type, system: opts.system, schema: [] },
+        }),
+
+      dropCollection: async (name) =>
+        apply({
+          kind: 'deleteCollection',
+          summary: `Delete collection '${name}'`,
+          collection: name,
+          payload: (await findCollection(name)) || { name },
+        }),
+
+      addField: (collection, field) =>
+        apply({
+          kind: 'addField',
+          summary: `Add field '${field.name}' to '${collection}'`,
+          collection,
+          field: field.name,
+          payload: field,
+        }),
+
+      updateField: async (collection, field, patch) => {
+        const current = await findField(collection, field);
+        await apply({
+          kind: 'updateField',
+          summary: `Update field '${field}' in '${collection}'`,
+          collection,
+          field,
+          payload: { desired: { ...current, ...patch }, current },
+        });
+      },
+
+      deleteField: async (collection, field) =>
+        apply({
+          kind: 'deleteField',
+          summary: `Delete field '${field}' from '${collection}'`,
+          collection,
+          field,
+          payload: (await findField(collection, field)) || { name: field },
+        }),
+
+      addIndex: (collection, sql) =>
+        apply({
+          kind: 'addIndex',
+          summary: `Add index to '${collection}'`,
+          collection,
+          payload: sql,
+        }),
+
+      deleteIndex: (collection, sql) =>
+        apply({
+          kind: 'deleteIndex',
+          summary: `Delete index from '${collection}'`,
+          collection,
+          payload: sql,
+        }),
+    },
+
+    sql: {
+      run: (sql) => runSql(client, apply, sql),
+    },
+
+    data: createMigrationData(client.pb),
+
+    step: (operation, run) => apply(operation, run),
+  };
+}
+
+/**
+ * PocketBase exposes no raw SQL endpoint, so index statements are routed
+ * through the owning collection's `indexes` and anything else is rejected.
+ */
+async function runSql(
+  client: PocketBaseClient,
+  apply: (operation: MigrationOperation) => Promise<void>,
+  sql: string,
+): Promise<void> {
+  const statement = sql.trim().replace(/;\s*$/, '');
+
+  const create = statement.match(CREATE_INDEX);
+  if (create) {
+    await apply({
+      kind: 'addIndex',
+      summary: `Add index '${create[1]}' to '${create[2]}'`,
+      collection: create[2],
+      payload: statement,
+    });
+    return;
+  }
+
+  const drop = statement.match(DROP_INDEX);
+  if (drop) {
+    const [, ifExists, indexName] = drop;
+    const collections = await client.pb.collections.getFullList();
+
+    for (const collection of collections as any[]) {
+      const index = (collection.indexes || []).find(
+        (candidate: string) => candidate.match(CREATE_INDEX)?.[1] === indexName,
+      );
+      if (index) {
+        await apply({
+          kind: 'deleteIndex',
+          summary: `Delete index '${indexName}' from '${collection.name}'`,
+          collection: collection.name,
+          payload: index,
+        });
+        return;
+      }
+    }
+
+    if (!ifExists) throw new Error(`Index '${indexName}' not found`);
+    return;
+  }
+
+  throw new Error(
+    `Unsupported SQL in migration: only CREATE INDEX and DROP INDEX statements can be run (got '${statement.split(/\s+/).slice(0, 3).join(' ')} ...')`,
+  );
+}
@@ -0,0 +1,191 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeHost } from '../test/fake-host.js';
+import { createMigrationData } from './migration-data.js';
+
+/**
+ * Backfill 1 into a `value` field of the given type, returning the values
+ * the records end up with
+ */
+async function backfill(type: string, values: unknown[]): Promise<unknown[]> {
+  const host = new FakeHost(
+    [{ name: 'records', fields: [{ name: 'value', type }] }],
+    { records: values.map((value) => ({ value })) },
+  );
+  await createMigrationData(host.sdk()).backfill('records', 'value', 1);
+  return host.records.records!.map((record) => record.value);
+}
+
+describe('ctx.data.backfill', () => {
+  test('fills values PocketBase treats as blank for the field type', async () => {
+    expect(await backfill('number', [0, 5, null])).toEqual([1, 5, 1]);
+    expect(await backfill('bool', [false, true])).toEqual([1, true]);
+    expect(await backfill('text', ['', 'x', undefined])).toEqual([1, 'x', 1]);
+    expect(await backfill('relation', [[], ['a']])).toEqual([1, ['a']]);
+  });
+
+  test('keeps 0 and false in JSON fields', async () => {
+    expect(await backfill('json', [0, false, {}, [], null])).toEqual([
+      0,
+      false,
+      1,
+      1,
+      1,
+    ]);
+  });
+});
+
+describe('ctx.data.forEachRecord', () => {
+  test('pages by ID past records an update moves out of the filter', async () => {
+    const host = new FakeHost([{ name: 'orders', fields: [] }], {
+      orders: Array.from({ length: 5 }, () => ({ status: 'open' })),
+    });
+
+    const result = await createMigrationData(host.sdk()).forEachRecord(
+      'orders',
+      () => ({ status: 'closed' }),
+      { filter: "status = 'open'", batchSize: 2, concurrency: 1 },
+    );
+
+    expect(result).toMatchObject({ total: 5, processed: 5, updated: 5 });
+    expect(host.records.orders!.map((order) => order.status)).toEqual(
+      Array(5).fill('closed'),
+    );
+  });
+});
+
+describe('ctx.data.transformField and copyField', () => {
+  const host = () =>
+    new FakeHost([{ name: 'users', fields: [] }], {
+      users: [{ email: 'A@X.com' }, { email: 'b@x.com' }, { email: '' }],
+    });
+
+  test('transformField rewrites set values and skips unchanged ones', async () => {
+    const users = host();
+    const result = await createMigrationData(users.sdk()).transformField(
+      'users',
+      'email',
+      (email: string) => email.toLowerCase(),
+    );
+
+    expect(result.updated).toBe(1);
+    expect(users.records.users!.map((user) => user.email)).toEqual([
+      'a@x.com',
+      'b@x.com',
+      '',
+    ]);
+  });
+
+  test('copyField writes every record, and dry runs only count', async () => {
+    const users = host();
+    const data = createMigrationData(users.sdk());
+
+    expect(
+      (
+        await data.copyField('users', 'email', 'login', undefined, {
+          dryRun: true,
+        })
+      ).updated,
+    ).toBe(3);
+    expect(users.records.users!.map((user) => user.login)).toEqual(
+      Array(3).fill(undefined),
+    );
+
+    await data.copyField('users', 'email', 'login');
+    expect(users.records.users!.map((user) => user.login)).toEqual([
+      'A@X.com',
+      'b@x.com',
+      '',
+    ]);
+  });
+});
+
+describe('ctx.data.forEachRecord failures and progress', () => {
+  const host = () =>
+    new FakeHost([{ name: 'orders', fields: [] }], {
+      orders: Array.from({ length: 5 }, (_, i) => ({ id: `o${i}`, total: i })),
+    });
+
+  test('stops at the first failing record by default', async () => {
+    await expect(
+      createMigrationData(host().sdk()).forEachRecord('orders', (order) => {
+        if (order.total === 2) throw new Error('bad total');
+      }),
+    ).rejects.toThrow("Record 'o2' in 'orders' failed: bad total");
+  });
+
+  test('collects failures with continueOnError and reports each page', async () => {
+    const progress: number[] = [];
+    const result = await createMigrationData(host().sdk()).forEachRecord(
+      'orders',
+      (order) => {
+        if (order.total % 2) throw new Error('odd total');
+      },
+      {
+        batchSize: 2,
+        continueOnError: true,
+        onProgress: ({ processed }) => progress.push(processed),
+      },
+    );
+
+    expect(result).toMatchObject({ total: 5, processed: 5, failed: 2 });
+    expect(result.errors).toEqual([
+      { id: 'o1', message: 'odd total' },
+      { id: 'o3', message: 'odd total' },
+    ]);
+    expect(progress).toEqual([2, 4, 5]);
+  });
+
+  test('runs at most `concurrency` callbacks at a time', async () => {
+    let running = 0;
+    let peak = 0;
+    await createMigrationData(host().sdk()).forEachRecord(
+      'orders',
+      async () => {
+        peak = Math.max(peak, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running--;
+      },
+      { concurrency: 2 },
+    );
+
+    expect(peak).toBe(2);
+  });
+});
+
+/**
+ * Dedupe the `email` field of the given records, returning the emails they
+ * end up with
+ */
+async function dedupe(
+  records: { id: string; created?: string; email: string }[],
+): Promise<string[]> {
+  const host = new FakeHost([{ name: 'users', fields: [] }], {
+    users: records,
+  });
+  await createMigrationData(host.sdk()).dedupe('users', 'email');
+  return host.records.users!.map((record) => record.email);
+}
+
+describe('ctx.data.dedupe', () => {
+  test('keeps the oldest value and suffixes later duplicates', async () => {
+    expect(
+      await dedupe([
+        { id: 'a', created: '2024-02-01', email: 'Ann@example.com' },
+        { id: 'b', created: '2024-01-01', email: 'ann@example.com' },
+        { id: 'c', created: '2024-03-01', email: 'bob' },
+        { id: 'd', created: '2024-04-01', email: 'bob' },
+        { id: 'e', created: '2024-05-01', email: '' },
+        { id: 'f', created: '2024-06-01', email: '' },
+      ]),
+    ).toEqual(['Ann+a@example.com', 'ann@example.com', 'bob', 'bob-d', '', '']);
+  });
+
+  test('falls back to ID order without a created field', async () => {
+    expect(
+      await dedupe([
+        { id: 'b', email: 'x' },
+        { id: 'a', email: 'x' },
+      ]),
+    ).toEqual(['x-b', 'x']);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Migration data helpers
+ * Runtime implementation of `ctx.data`: record transformations that page
+ * through a collection instead of loading it whole
+ */
+
+import type PocketBase from 'pocketbase';
+import type {
+  DataMigrationOptions,
+  DataMigrationResult,
+  MigrationData,
+} from '../types/migration.js';
+
+const DEFAULT_BATCH_SIZE = 200;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Build the `ctx.data` helpers for a PocketBase connection
+ */
+export function createMigrationData(pb: PocketBase): MigrationData {
+  const forEachRecord: MigrationData['forEachRecord'] = (
+    collection,
+    fn,
+    options,
+  ) => eachRecord(pb, collection, fn, options);
+
+  return {
+    forEachRecord,
+
+    transformField: (collection, field, transform, options) =>
+      forEachRecord(
+        collection,
+        async (record) => {
+          if (isEmpty(record[field])) return;
+          const value = await transform(record[field], record);
+          return isSame(value, record[field]) ? undefined : { [field]: value };
+        },
+        options,
+      ),
+
+    copyField: (collection, from, to, transform = (value) => value, options) =>
+      forEachRecord(
+        collection,
+        async (record) => {
+          const value = await transform(record[from], record);
+          return isSame(value, record[to]) ? undefined : { [to]: value };
+        },
+        options,
+      ),
+
+    backfill: async (collection, field, value, options) => {
+      const type = await fieldType(pb, collection, field);
+      return forEachRecord(
+        collection,
+        async (record) => {
+          if (!isBlank(record[field], type)) return;
+          return {
+            [field]: typeof value === 'function' ? await value(record) : value,
+          };
+        },
+        options,
+      );
+    },
+
+    dedupe: async (collection, field, options) => {
+      // First pass finds the record that keeps each value, the second
+      // renames the others; only one entry per distinct value is held
+      const keepers = new Map<string, any>();
+      await forEachRecord(
+        collection,
+        (record) => {
+          if (isEmpty(record[field])) return;
+          const key = String(record[field]).toLowerCase();
+          const keeper = keepers.get(key);
+          if (!keeper || isOlder(record, keeper)) {
+            keepers.set(key, { id: record.id, created: record.created });
+          }
+        },
+        { ...options, dryRun: true, onProgress: undefined },
+      );
+
+      return forEachRecord(
+        collection,
+        (record) => {
+          if (isEmpty(record[field])) return;
+          const key = String(record[field]).toLowerCase();
+          if (keepers.get(key)?.id === record.id) return;
+          return { [field]: withSuffix(String(record[field]), record.id) };
+        },
+        options,
+      );
+    },
+  };
+}
+
+/**
+ * Visit matching records page by page, running up to `concurrency` callbacks
+ * at a time and saving the objects they return
+ */
+async function eachRecord(
+  pb: PocketBase,
+  collection: string,
+  fn: (record: any) => unknown,
+  options: DataMigrationOptions = {},
+): Promise<DataMigrationResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const records = pb.collection(collection);
+  const result: DataMigrationResult = {
+    total: 0,
+    processed: 0,
+    updated: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  const visit = async (record: any) => {
+    try {
+      const changes = await fn(record);
+      if (changes && typeof changes === 'object') {
+        if (!options.dryRun) await records.update(record.id, changes);
+        result.updated++;
+      }
+    } catch (error) {
+      result.failed++;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (!options.continueOnError) {
+        throw new Error(
+          `Record '${record.id}' in '${collection}' failed: ${message}`,
+        );
+      }
+      result.errors.push({ id: record.id, message });
+    } finally {
+      result.processed++;
+    }
+  };
+
+  // Page by ID rather than page number, so records that an update moves out
+  // of the filter do not shift later pages
+  let lastId = '';
+  for (let page = 1; ; page++) {
+    const filter = [
+      options.filter ? `(${options.filter})` : '',
+      lastId ? pb.filter('id > {:lastId}', { lastId }) : '',
+    ]
+      .filter(Boolean)
+      .join(' && ');
+
+    const list = await records.getList(1, batchSize, {
+      sort: 'id',
+      filter,
+      skipTotal: page > 1,
+    });
+    if (page === 1) result.total = list.totalItems;
+
+    await runConcurrently(list.items, concurrency, visit);
+
+    const { errors, ...progress } = result;
+    options.onProgress?.(progress);
+
+    if (list.items.length < batchSize) break;
+    lastId = list.items[list.items.length - 1]!.id;
+  }
+
+  return result;
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight. The first
+ * failure stops new calls and is rethrown once running ones settle.
+ */
+async function runConcurrently<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  let failure: unknown;
+
+  const worker = async () => {
+    while (next < items.length && failure === undefined) {
+      const item = items[next++]!;
+      try {
+        await fn(item);
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  if (failure !== undefined) throw failure;
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Whether a value is blank for PocketBase's `required` check, which uses each
+ * type's zero value: 0 for number, false for bool, {} for json
+ */
+const isBlank = (value: unknown, type: string | undefined) => {
+  if (isEmpty(value)) return true;
+  switch (type) {
+    case 'number':
+      return value === 0;
+    case 'bool':
+      return value === false;
+    case 'json':
+      return typeof value === 'object' && Object.keys(value!).length === 0;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Look up a field's type on the host, `fields` on 0.23+ and `schema` before
+ */
+async function fieldType(
+  pb: PocketBase,
+  collection: string,
+  field: string,
+): Promise<string | undefined> {
+  const { fields, schema } = await pb.collections.getOne(collection);
+  return (fields || schema || []).find((f: any) => f.name === field)?.type;
+}
+
+/**
+ * Whether `a` was created before `b`. Collections without a `created` field
+ * (optional from 0.23) fall back to ID order, which also breaks ties.
+ */
+const isOlder = (a: any, b: any) =>
+  a.created && b.created && a.created !== b.created
+    ? a.created < b.created
+    : a.id < b.id;
+
+/**
+ * Make a value unique by adding a record ID, keeping emails valid
+ */
+const withSuffix = (value: string, id: string) => {
+  const at = value.lastIndexOf('@');
+  return at > 0
+    ? `${value.slice(0, at)}+${id}${value.slice(at)}`
+    : `${value}-${id}`;
+};
+
+const isSame = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { FakeHost } from '../test/fake-host.js';
+import type { Migration } from '../types/migration.js';
+import type { MigrationOperation } from '../types/schema.js';
+import { createMigrationContext } from './migration-context.js';
+import { MigrationGenerator } from './migration-generator.js';
+
+const operations: MigrationOperation[] = [
+  {
+    kind: 'addField',
+    summary: "Add field 'code' to 'posts'",
+    collection: 'posts',
+    field: 'code',
+    payload: { name: 'code', type: 'text', unique: true },
+    strategies: [{ kind: 'dedupe', field: 'code' }],
+  },
+  {
+    kind: 'renameField',
+    summary: "Rename field 'title' → 'headline' in 'posts'",
+    collection: 'posts',
+    field: 'headline',
+    payload: { from: 'title', to: 'headline' },
+  },
+];
+
+describe('MigrationGenerator.generate', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pocketvex-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Import a generated migration and run one direction, returning the
+   * operations it passed to `ctx.step`
+   */
+  const run = async (
+    source: string,
+    direction: 'up' | 'down',
+  ): Promise<MigrationOperation[]> => {
+    const file = join(dir, `${direction}.js`);
+    await writeFile(file, source);
+    const migration: Record<typeof direction, Migration> = await import(
+      pathToFileURL(file).href
+    );
+
+    const steps: MigrationOperation[] = [];
+    const client = new FakeHost().client();
+    await migration[direction](
+      client.pb,
+      createMigrationContext(client, async (operation) => {
+        steps.push(operation);
+      }),
+    );
+    return steps;
+  };
+
+  test('up passes each operation to ctx.step in order', async () => {
+    const source = MigrationGenerator.generate(operations, { name: 'test' });
+    expect(await run(source, 'up')).toEqual(operations);
+  });
+
+  test('down passes the inverses in reverse order', async () => {
+    const source = MigrationGenerator.generate(operations, { name: 'test' });
+    expect(
+      (await run(source, 'down')).map(({ kind, field }) => ({ kind, field })),
+    ).toEqual([
+      { kind: 'renameField', field: 'title' },
+      { kind: 'deleteField', field: 'code' },
+    ]);
+  });
+
+  test('down throws for operations that cannot be inverted', async () => {
+    const source = MigrationGenerator.generate(
+      [
+        {
+          kind: 'updateRules',
+          summary: "Update rules for 'posts'",
+          collection: 'posts',
+          payload: { list: '' },
+        },
+      ],
+      { name: 'test' },
+    );
+    await expect(run(source, 'down')).rejects.toThrow(
+      "Cannot revert automatically: Update rules for 'posts'",
+    );
+  });
+
+  test('applies and reverts through the runtime context', async () => {
+    const host = new FakeHost([{ name: 'posts', fields: [], indexes: [] }]);
+    const client = host.client();
+    const index = 'CREATE INDEX `idx_code`\n  ON `posts` (`code`)';
+    const file = join(dir, 'run.js');
+    await writeFile(
+      file,
+      MigrationGenerator.generate(
+        [
+          { ...operations[0]!, strategies: undefined },
+          {
+            kind: 'addIndex',
+            summary: "Add index to 'posts'",
+            collection: 'posts',
+            payload: index,
+          },
+        ],
+        { name: 'test' },
+      ),
+    );
+    const migration: Record<'up' | 'down', Migration> = await import(
+      pathToFileURL(file).href
+    );
+
+    await migration.up(client.pb, createMigrationContext(client));
+    expect(host.collection('posts')).toMatchObject({
+      fields: [{ name: 'code', type: 'text' }],
+      indexes: [
+        'CREATE UNIQUE INDEX `idx_unique_posts_code` ON `posts` (`code`)',
+        index,
+      ],
+    });
+
+    await migration.down(client.pb, createMigrationContext(client));
+    expect(host.collection('posts')).toMatchObject({ fields: [], indexes: [] });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Migration file generator
+ * Writes migration operations as `ctx.step` calls, which the runner applies
+ * through the same PocketBase client and version adapter as `schema push`
+ */
+
+import type { MigrationOperation } from '../types/schema.js';
+import { SchemaDiff } from './diff.js';
+
+export interface MigrationFileOptions {
+  name: string;
+  createdAt?: string;
+  generatedBy?: string;
+}
+
+export class MigrationGenerator {
+  /**
+   * Generate a migration module whose `down` reverts `up` in reverse order
+   */
+  static generate(
+    operations: MigrationOperation[],
+    options: MigrationFileOptions,
+  ): string {
+    const createdAt = options.createdAt || new Date().toISOString();
+
+    const upBody = operations
+      .map((op, i) => this.generateStep(op, i + 1))
+      .join('\n\n');
+
+    const downBody = [...operations]
+      .reverse()
+      .map((op, i) => {
+        const inverse = SchemaDiff.invertOperation(op);
+        if (!inverse) {
+          return `  // ${i + 1}. ${this.toComment(op.summary)}
+  throw new Error(${JSON.stringify(
+    `Cannot revert automatically: ${this.toComment(op.summary)}`,
+  )});`;
+        }
+        return this.generateStep(inverse, i + 1);
+      })
+      .join('\n\n');
+
+    return `/**
+ * Migration: ${this.toComment(options.name)}
+ * Generated by ${options.generatedBy || 'PocketVex'}
+ * Created: ${createdAt}
+ *
+${operations.map((op, i) => ` * ${i + 1}. ${this.toComment(op.summary)}`).join('\n')}
+ */
+
+export const up = async (pb, ctx) => {
+${upBody || '  // No operations'}
+};
+
+export const down = async (pb, ctx) => {
+${downBody || '  // No operations'}
+};
+`;
+  }
+
+  /**
+   * Generate the code for a single numbered operation. `ctx.step` journals
+   * it for `--resume` and `--rollback-on-failure`, runs its assisted
+   * strategies and applies it in the shape the host's PocketBase version
+   * expects.
+   */
+  static generateStep(operation: MigrationOperation, index: number): string {
+    return `  // ${index}. ${this.toComment(operation.summary)}
+  await ctx.step(${this.literal(operation, 2)});`;
+  }
+
+  /**
+   * Serialize a value as a JS literal, indenting continuation lines
+   */
+  private static literal(value: unknown, indent = 0): string {
+    return (JSON.stringify(value, null, 2) ?? 'undefined').replace(
+      /\n/g,
+      `\n${' '.repeat(indent)}`,
+    );
+  }
+
+  /**
+   * Collapse text onto a single line so it cannot escape a comment
+   */
+  private static toComment(text: string): string {
+    return String(text).replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Migration journal
+ * Records each applied operation in a local state file so an interrupted
+ * run can be resumed or rolled back
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import type { MigrationOperation } from '../types/schema.js';
+
+export interface JournalStep {
+  index: number;
+  operation: MigrationOperation;
+  completedAt: string;
+}
+
+export interface JournalRun {
+  /** What is being applied, e.g. `schema push` or `migrate 20240101_init` */
+  target: string;
+  url: string;
+  startedAt: string;
+  status: 'running' | 'failed';
+  /** Full plan for runs driven by a diff, so a resume replays the same plan */
+  operations?: MigrationOperation[];
+  steps: JournalStep[];
+  error?: string;
+}
+
+type JournalFile = Record<string, JournalRun>;
+
+export class MigrationJournal {
+  readonly path: string;
+
+  constructor(path: string = join(process.cwd(), '.pocketvex', 'journal.json')) {
+    this.path = path;
+  }
+
+  /**
+   * Find the unfinished run for a target on a host
+   */
+  async find(url: string, target: string): Promise<JournalRun | null> {
+    const runs = await this.read();
+    return runs[this.key(url, target)] || null;
+  }
+
+  /**
+   * Start a new run, replacing any unfinished run for the same target
+   */
+  async begin(
+    url: string,
+    target: string,
+    operations?: MigrationOperation[],
+  ): Promise<JournalRun> {
+    const run: JournalRun = {
+      target,
+      url,
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      operations,
+      steps: [],
+    };
+    await this.save(run);
+    return run;
+  }
+
+  /**
+   * Record a completed operation
+   */
+  async recordStep(
+    run: JournalRun,
+    index: number,
+    operation: MigrationOperation,
+  ): Promise<void> {
+    run.steps.push({
+      index,
+      operation,
+      completedAt: new Date().toISOString(),
+    });
+    await this.save(run);
+  }
+
+  /**
+   * Mark a run as failed so it can be resumed later
+   */
+  async fail(run: JournalRun, error: unknown): Promise<void> {
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+    await this.save(run);
+  }
+
+  /**
+   * Drop a run once it completed or was rolled back
+   */
+  async finish(run: JournalRun): Promise<void> {
+    const runs = await this.read();
+    delete runs[this.key(run.url, run.target)];
+    await this.write(runs);
+  }
+
+  private async save(run: JournalRun): Promise<void> {
+    const runs = await this.read();
+    runs[this.key(run.url, run.target)] = run;
+    await this.write(runs);
+  }
+
+  private async read(): Promise<JournalFile> {
+    if (!existsSync(this.path)) return {};
+
+    try {
+      return JSON.parse(await readFile(this.path, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to read migration journal ${this.path}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  private async write(runs: JournalFile): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(runs, null, 2));
+  }
+
+  private key(url: string, target: string): string {
+    return `${url} ${target}`;
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeHost } from '../test/fake-host.js';
+import { MigrationLedger, MIGRATIONS_COLLECTION } from './migration-ledger.js';
+
+describe('MigrationLedger', () => {
+  test('is empty until the first migration is recorded', async () => {
+    const host = new FakeHost();
+    const ledger = new MigrationLedger(host.client());
+
+    expect(await ledger.list()).toEqual([]);
+    expect(host.log).toEqual([]);
+
+    await ledger.record({ name: '002_b', checksum: 'b', durationMs: 5 });
+    await ledger.record({ name: '001_a', checksum: 'a', durationMs: 0 });
+
+    expect(host.log).toEqual([`create:${MIGRATIONS_COLLECTION}`]);
+    expect(
+      (await ledger.list()).map(({ name, checksum, durationMs }) => ({
+        name,
+        checksum,
+        durationMs,
+      })),
+    ).toEqual([
+      { name: '001_a', checksum: 'a', durationMs: 0 },
+      { name: '002_b', checksum: 'b', durationMs: 5 },
+    ]);
+  });
+
+  test('removes reverted migrations by name', async () => {
+    const host = new FakeHost([{ name: MIGRATIONS_COLLECTION, fields: [] }], {
+      [MIGRATIONS_COLLECTION]: [
+        { name: '001_a', checksum: 'a' },
+        { name: '002_b', checksum: 'b' },
+      ],
+    });
+    const ledger = new MigrationLedger(host.client());
+
+    await ledger.remove('001_a');
+    await ledger.remove('003_missing');
+
+    expect((await ledger.list()).map((entry) => entry.name)).toEqual(['002_b']);
+  });
+});
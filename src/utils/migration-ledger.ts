@@ -0,0 +1,119 @@
+/**
+ * Applied-migrations ledger
+ * Records which migrations ran against a PocketBase host, stored on that host
+ */
+
+import type { SchemaCollection } from '../types/schema.js';
+import type { PocketBaseClient } from './pocketbase.js';
+
+/**
+ * Ledger collection name. PocketBase reserves a leading underscore for its own
+ * system collections, so the ledger uses a plain prefixed name instead.
+ */
+export const MIGRATIONS_COLLECTION = 'pocketvex_migrations';
+
+const LEDGER_COLLECTION: SchemaCollection = {
+  name: MIGRATIONS_COLLECTION,
+  type: 'base',
+  schema: [
+    { name: 'name', type: 'text', required: true },
+    { name: 'checksum', type: 'text', required: true },
+    { name: 'applied_at', type: 'date', required: true },
+    { name: 'duration_ms', type: 'number' },
+  ],
+  indexes: [
+    `CREATE UNIQUE INDEX \`idx_${MIGRATIONS_COLLECTION}_name\` ON \`${MIGRATIONS_COLLECTION}\` (\`name\`)`,
+  ],
+};
+
+export interface AppliedMigration {
+  id: string;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+  durationMs: number;
+}
+
+export class MigrationLedger {
+  private client: PocketBaseClient;
+
+  constructor(client: PocketBaseClient) {
+    this.client = client;
+  }
+
+  /**
+   * Create the ledger collection on the host if it does not exist yet
+   */
+  async ensure(): Promise<void> {
+    if (await this.exists()) return;
+
+    await this.client.applyOperation({
+      kind: 'createCollection',
+      summary: `Create migration ledger '${MIGRATIONS_COLLECTION}'`,
+      collection: MIGRATIONS_COLLECTION,
+      payload: LEDGER_COLLECTION,
+    });
+  }
+
+  /**
+   * List applied migrations, oldest name first. A host without a ledger has none.
+   */
+  async list(): Promise<AppliedMigration[]> {
+    if (!(await this.exists())) return [];
+
+    const records = await this.client.pb
+      .collection(MIGRATIONS_COLLECTION)
+      .getFullList({ sort: 'name' });
+
+    return records.map((record: any) => ({
+      id: record.id,
+      name: record.name,
+      checksum: record.checksum,
+      appliedAt: record.applied_at,
+      durationMs: record.duration_ms || 0,
+    }));
+  }
+
+  /**
+   * Record a migration as applied
+   */
+  async record(entry: {
+    name: string;
+    checksum: string;
+    durationMs: number;
+  }): Promise<void> {
+    await this.ensure();
+    await this.client.pb.collection(MIGRATIONS_COLLECTION).create({
+      name: entry.name,
+      checksum: entry.checksum,
+      applied_at: new Date().toISOString(),
+      duration_ms: entry.durationMs,
+    });
+  }
+
+  /**
+   * Remove a migration from the ledger after it has been rolled back
+   */
+  async remove(name: string): Promise<void> {
+    const applied = await this.list();
+    const entry = applied.find((migration) => migration.name === name);
+    if (entry) {
+      await this.client.pb.collection(MIGRATIONS_COLLECTION).delete(entry.id);
+    }
+  }
+
+  /**
+   * Check whether the ledger collection exists on the host
+   */
+  private async exists(): Promise<boolean> {
+    try {
+      await this.client.pb.collections.getOne(MIGRATIONS_COLLECTION);
+      return true;
+    } catch (error: any) {
+      if (error?.status === 404) return false;
+      throw new Error(
+        `Failed to read migration ledger: ${error?.message || String(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FakeHost } from '../test/fake-host.js';
+import { MigrationJournal } from './migration-journal.js';
+import { MIGRATIONS_COLLECTION } from './migration-ledger.js';
+import { MigrationRunner, computeChecksum } from './migration-runner.js';
+
+const source = (label: string) =>
+  `export const up = async () => {}; // ${label}\nexport const down = async () => {};\n`;
+
+/**
+ * Client whose ledger holds the given applied migrations
+ */
+function ledgerClient(applied: { name: string; checksum: string }[]) {
+  return new FakeHost([{ name: MIGRATIONS_COLLECTION, fields: [] }], {
+    [MIGRATIONS_COLLECTION]: applied,
+  }).client();
+}
+
+describe('computeChecksum', () => {
+  test('is a stable SHA-256 of the content', () => {
+    expect(computeChecksum('up')).toBe(computeChecksum('up'));
+    expect(computeChecksum('up')).not.toBe(computeChecksum('up '));
+    expect(computeChecksum('')).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    );
+  });
+});
+
+describe('MigrationRunner.status', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pocketvex-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('flags applied files edited after they ran', async () => {
+    await writeFile(join(dir, '001_init.js'), source('init'));
+    await writeFile(join(dir, '002_posts.js'), source('posts, edited'));
+    await writeFile(join(dir, '003_tags.js'), source('tags'));
+
+    const runner = new MigrationRunner(
+      ledgerClient([
+        { name: '001_init', checksum: computeChecksum(source('init')) },
+        { name: '002_posts', checksum: computeChecksum(source('posts')) },
+        { name: '000_gone', checksum: computeChecksum(source('gone')) },
+      ]),
+      dir,
+      new MigrationJournal(join(dir, 'journal.json')),
+    );
+
+    const entries = await runner.status();
+    expect(
+      entries.map(({ name, state, modified }) => ({ name, state, modified })),
+    ).toEqual([
+      { name: '000_gone', state: 'missing', modified: undefined },
+      { name: '001_init', state: 'applied', modified: false },
+      { name: '002_posts', state: 'applied', modified: true },
+      { name: '003_tags', state: 'pending', modified: undefined },
+    ]);
+  });
+});
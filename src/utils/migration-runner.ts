@@ -0,0 +1,223 @@
+/**
+ * Migration runner
+ * Loads migration files and applies or reverts them against the host ledger
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import crypto from 'crypto';
+import type { Migration } from '../types/migration.js';
+import type { PocketBaseClient } from './pocketbase.js';
+import { createMigrationContext } from './migration-context.js';
+import { MigrationLedger, type AppliedMigration } from './migration-ledger.js';
+import { MigrationJournal } from './migration-journal.js';
+import { PlanExecutor } from './plan-executor.js';
+
+export interface MigrationFile {
+  name: string;
+  path: string;
+  checksum: string;
+  up: Migration;
+  down: Migration;
+}
+
+export interface MigrationStatus {
+  name: string;
+  state: 'applied' | 'pending' | 'missing';
+  file?: MigrationFile;
+  applied?: AppliedMigration;
+  /** Applied file whose content no longer matches the recorded checksum */
+  modified?: boolean;
+}
+
+/**
+ * Hash migration source so applied files can be identified later
+ */
+export function computeChecksum(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Load migration files from directory, sorted by name
+ */
+export async function loadMigrations(dir: string): Promise<MigrationFile[]> {
+  if (!existsSync(dir)) return [];
+
+  try {
+    const files = await readdir(dir);
+    const migrationFiles = files
+      .filter((file) => file.endsWith('.js') || file.endsWith('.mjs'))
+      .sort();
+
+    const migrations: MigrationFile[] = [];
+
+    for (const file of migrationFiles) {
+      const filepath = resolve(join(dir, file));
+      const content = await readFile(filepath, 'utf-8');
+      const module = await import(pathToFileURL(filepath).href);
+
+      // Accept named exports or a default `{ up, down }` object
+      const up = module.up ?? module.default?.up;
+      const down = module.down ?? module.default?.down;
+
+      if (typeof up === 'function' && typeof down === 'function') {
+        migrations.push({
+          name: file.replace(/\.m?js$/, ''),
+          path: filepath,
+          checksum: computeChecksum(content),
+          up,
+          down,
+        });
+      }
+    }
+
+    return migrations;
+  } catch (error) {
+    throw new Error(`Failed to load migrations from ${dir}: ${error}`);
+  }
+}
+
+export class MigrationRunner {
+  private client: PocketBaseClient;
+  private dir: string;
+  readonly ledger: MigrationLedger;
+  readonly journal: MigrationJournal;
+
+  constructor(
+    client: PocketBaseClient,
+    dir: string,
+    journal = new MigrationJournal(),
+  ) {
+    this.client = client;
+    this.dir = dir;
+    this.ledger = new MigrationLedger(client);
+    this.journal = journal;
+  }
+
+  /**
+   * Compare migration files on disk with the host ledger
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const files = await loadMigrations(this.dir);
+    const applied = await this.ledger.list();
+    const appliedByName = new Map(applied.map((entry) => [entry.name, entry]));
+    const fileNames = new Set(files.map((file) => file.name));
+
+    const entries: MigrationStatus[] = files.map((file) => {
+      const entry = appliedByName.get(file.name);
+      return entry
+        ? {
+            name: file.name,
+            state: 'applied',
+            file,
+            applied: entry,
+            modified: entry.checksum !== file.checksum,
+          }
+        : { name: file.name, state: 'pending', file };
+    });
+
+    // Applied on the host but no longer on disk
+    for (const entry of applied) {
+      if (!fileNames.has(entry.name)) {
+        entries.push({ name: entry.name, state: 'missing', applied: entry });
+      }
+    }
+
+    return entries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Applied migrations whose files were edited after they ran
+   */
+  async modified(): Promise<MigrationStatus[]> {
+    return (await this.status()).filter((entry) => entry.modified);
+  }
+
+  /**
+   * Pending migrations in the order they should run
+   */
+  async pending(limit?: number): Promise<MigrationFile[]> {
+    const pending = (await this.status())
+      .filter((entry) => entry.state === 'pending')
+      .map((entry) => entry.file!);
+    return limit ? pending.slice(0, limit) : pending;
+  }
+
+  /**
+   * Most recently applied migrations, newest first
+   */
+  async applied(limit?: number): Promise<MigrationStatus[]> {
+    const applied = (await this.status())
+      .filter((entry) => entry.state !== 'pending')
+      .reverse();
+    return limit ? applied.slice(0, limit) : applied;
+  }
+
+  /**
+   * Run a migration's `up` and record it in the ledger. Operations made
+   * through `ctx`, including the `ctx.step`s of generated migrations, are
+   * journaled, so a failed run can skip them on resume or replay their
+   * inverses; direct `pb` calls are not tracked.
+   */
+  async apply(
+    migration: MigrationFile,
+    options: { resume?: boolean; rollbackOnFailure?: boolean } = {},
+  ): Promise<number> {
+    await this.ledger.ensure();
+
+    const executor = new PlanExecutor(this.client, this.journal);
+    const url = this.client.pb.baseUrl;
+    const target = `migrate ${migration.name}`;
+    const run =
+      (options.resume && (await this.journal.find(url, target))) ||
+      (await this.journal.begin(url, target));
+    const done = new Set(run.steps.map((step) => step.index));
+    const from = run.steps.length;
+
+    let index = 0;
+    const ctx = createMigrationContext(
+      this.client,
+      async (operation, apply) => {
+        const step = index++;
+        if (done.has(step)) return;
+        await (apply ? apply() : this.client.applyOperation(operation));
+        await this.journal.recordStep(run, step, operation);
+      },
+    );
+
+    const startedAt = Date.now();
+    try {
+      await migration.up(this.client.pb, ctx);
+    } catch (error) {
+      await executor.abort(run, error, options.rollbackOnFailure, from);
+    }
+    const durationMs = Date.now() - startedAt;
+    await this.journal.finish(run);
+
+    await this.ledger.record({
+      name: migration.name,
+      checksum: migration.checksum,
+      durationMs,
+    });
+    return durationMs;
+  }
+
+  /**
+   * Run a migration's `down` and remove it from the ledger
+   */
+  async revert(entry: MigrationStatus): Promise<void> {
+    if (!entry.file) {
+      throw new Error(
+        `Cannot roll back '${entry.name}': migration file not found in ${this.dir}`,
+      );
+    }
+
+    await entry.file.down(
+      this.client.pb,
+      createMigrationContext(this.client),
+    );
+    await this.ledger.remove(entry.name);
+  }
+}
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FakeHost } from '../test/fake-host.js';
+import type { MigrationOperation } from '../types/schema.js';
+import { MigrationJournal } from './migration-journal.js';
+import { PlanExecutor } from './plan-executor.js';
+
+const createCollection = (name: string): MigrationOperation => ({
+  kind: 'createCollection',
+  summary: `Create collection '${name}'`,
+  collection: name,
+  payload: { name, schema: [] },
+});
+
+const addField = (collection: string, name: string): MigrationOperation => ({
+  kind: 'addField',
+  summary: `Add field '${name}' to '${collection}'`,
+  collection,
+  field: name,
+  payload: { name, type: 'text' },
+});
+
+describe('PlanExecutor', () => {
+  const plan = ['a', 'b', 'c'].map(createCollection);
+  let dir: string;
+  let journal: MigrationJournal;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pocketvex-'));
+    journal = new MigrationJournal(join(dir, 'journal.json'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('journals completed steps and resumes after them', async () => {
+    const host = new FakeHost();
+    host.failOn.add('b');
+    await expect(
+      new PlanExecutor(host.client(), journal).execute(plan, {
+        target: 'push',
+      }),
+    ).rejects.toThrow('1 completed steps journaled');
+    expect(host.log).toEqual(['create:a']);
+
+    const run = await journal.find(host.url, 'push');
+    expect(run?.status).toBe('failed');
+    expect(run?.steps.map((step) => step.index)).toEqual([0]);
+
+    host.failOn.clear();
+    const result = await new PlanExecutor(host.client(), journal).execute([], {
+      target: 'push',
+      resume: true,
+    });
+    expect(result).toEqual({ applied: 2, skipped: 1 });
+    expect(host.log).toEqual(['create:a', 'create:b', 'create:c']);
+    expect(await journal.find(host.url, 'push')).toBeNull();
+  });
+
+  test('rolls back completed steps newest first', async () => {
+    const host = new FakeHost();
+    host.failOn.add('c');
+    await expect(
+      new PlanExecutor(host.client(), journal).execute(plan, {
+        target: 'push',
+        rollbackOnFailure: true,
+      }),
+    ).rejects.toThrow('rolled back 2 completed steps');
+
+    expect(host.log).toEqual(['create:a', 'create:b', 'delete:b', 'delete:a']);
+    expect(await journal.find(host.url, 'push')).toBeNull();
+  });
+
+  test('rolls back only the steps of the resumed attempt', async () => {
+    const host = new FakeHost();
+    host.failOn.add('b');
+    await expect(
+      new PlanExecutor(host.client(), journal).execute(plan, {
+        target: 'push',
+      }),
+    ).rejects.toThrow();
+
+    host.failOn.clear();
+    host.failOn.add('c');
+    await expect(
+      new PlanExecutor(host.client(), journal).execute([], {
+        target: 'push',
+        resume: true,
+        rollbackOnFailure: true,
+      }),
+    ).rejects.toThrow(
+      'rolled back 1 completed steps; 1 steps from the earlier run are still applied',
+    );
+
+    expect(host.log).toEqual(['create:a', 'create:b', 'delete:b']);
+    const run = await journal.find(host.url, 'push');
+    expect(run?.steps.map((step) => step.index)).toEqual([0]);
+  });
+
+  test('warns that assisted record changes are not rolled back', async () => {
+    const host = new FakeHost([{ name: 'a', fields: [] }]);
+    const operation: MigrationOperation = {
+      kind: 'addField',
+      summary: "Add field 'code' to 'a'",
+      collection: 'a',
+      field: 'code',
+      payload: { name: 'code', type: 'text', unique: true },
+      strategies: [{ kind: 'dedupe', field: 'code' }],
+    };
+    const run = await journal.begin(host.url, 'push', [operation]);
+    await journal.recordStep(run, 0, operation);
+
+    await expect(
+      new PlanExecutor(host.client(), journal).abort(
+        run,
+        new Error('Failed'),
+        true,
+      ),
+    ).rejects.toThrow(
+      "records changed by backfill or dedupe were not restored: Add field 'code' to 'a'",
+    );
+    expect(host.log).toEqual(['update:a']);
+  });
+
+  test('applies all changes to a collection in one update', async () => {
+    const host = new FakeHost([{ name: 'posts', fields: [], indexes: [] }]);
+    const result = await new PlanExecutor(host.client(), journal).execute(
+      [
+        addField('posts', 'body'),
+        addField('posts', 'slug'),
+        {
+          kind: 'addIndex',
+          summary: "Add index to 'posts'",
+          collection: 'posts',
+          payload: 'CREATE INDEX `idx_slug` ON `posts` (`slug`)',
+        },
+      ],
+      { target: 'push' },
+    );
+
+    expect(result).toEqual({ applied: 3, skipped: 0 });
+    expect(host.log).toEqual(['update:posts']);
+    expect(host.collection('posts')).toMatchObject({
+      fields: [{ name: 'body' }, { name: 'slug' }],
+      indexes: ['CREATE INDEX `idx_slug` ON `posts` (`slug`)'],
+    });
+  });
+});
+
+describe('PlanExecutor.batch', () => {
+  test('orders creates, per-collection changes, views, then deletes', () => {
+    const batches = PlanExecutor.batchOperations([
+      {
+        kind: 'deleteCollection',
+        summary: "Delete collection 'old'",
+        collection: 'old',
+        payload: { name: 'old' },
+      },
+      addField('posts', 'body'),
+      {
+        kind: 'createCollection',
+        summary: "Create view collection 'stats'",
+        collection: 'stats',
+        payload: { name: 'stats', type: 'view' },
+      },
+      createCollection('tags'),
+      addField('posts', 'slug'),
+      addField('tags', 'label'),
+    ]);
+
+    expect(
+      batches.map(({ label, steps }) => ({
+        label,
+        steps: steps.map((step) => step.index),
+      })),
+    ).toEqual([
+      { label: "Create collection 'tags'", steps: [3] },
+      { label: "Apply 2 changes to 'posts'", steps: [1, 4] },
+      { label: "Add field 'label' to 'tags'", steps: [5] },
+      { label: "Create view collection 'stats'", steps: [2] },
+      { label: "Delete collection 'old'", steps: [0] },
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Plan executor
+ * Applies migration operations with one round trip per collection, journaling
+ * each completed step so a failed run can be resumed or rolled back
+ */
+
+import type { MigrationOperation } from '../types/schema.js';
+import { SchemaDiff } from './diff.js';
+import { PocketBaseClient } from './pocketbase.js';
+import { MigrationJournal, type JournalRun } from './migration-journal.js';
+
+export interface ExecuteOptions {
+  /** Journal key for this run, e.g. `schema push` */
+  target: string;
+  /** Continue the last failed run for this target instead of starting over */
+  resume?: boolean;
+  /** Revert completed operations when one fails */
+  rollbackOnFailure?: boolean;
+  /** Called before each round trip with the number of steps completed so far */
+  onStep?: (label: string, completed: number, total: number) => void;
+}
+
+export interface PlanStep {
+  /** Position in the full plan, as recorded in the journal */
+  index: number;
+  operation: MigrationOperation;
+}
+
+export interface PlanBatch {
+  label: string;
+  /** Set when every step is a field, index or rule change on this collection */
+  collection?: string;
+  steps: PlanStep[];
+}
+
+export interface ExecuteResult {
+  applied: number;
+  skipped: number;
+}
+
+export interface RollbackResult {
+  /** Steps without an inverse, left applied */
+  skipped: string[];
+  /** Reverted steps whose assisted record changes were kept */
+  dataKept: string[];
+}
+
+export class PlanExecutor {
+  private client: PocketBaseClient;
+  readonly journal: MigrationJournal;
+
+  constructor(client: PocketBaseClient, journal = new MigrationJournal()) {
+    this.client = client;
+    this.journal = journal;
+  }
+
+  /**
+   * Unfinished run for a target on this client's host, if any
+   */
+  async findResumable(target: string): Promise<JournalRun | null> {
+    const run = await this.journal.find(this.client.pb.baseUrl, target);
+    return run?.operations ? run : null;
+  }
+
+  /**
+   * Apply operations batched per collection (see `PlanExecutor.batch`). When
+   * resuming, the journaled plan replaces `operations` and its completed steps
+   * are skipped.
+   */
+  async execute(
+    operations: MigrationOperation[],
+    options: ExecuteOptions,
+  ): Promise<ExecuteResult> {
+    const resumable = options.resume
+      ? await this.findResumable(options.target)
+      : null;
+
+    const run =
+      resumable ||
+      (await this.journal.begin(
+        this.client.pb.baseUrl,
+        options.target,
+        operations,
+      ));
+    const plan = run.operations!;
+    const done = new Set(run.steps.map((step) => step.index));
+    const batches = PlanExecutor.batch(
+      [...plan.entries()]
+        .filter(([index]) => !done.has(index))
+        .map(([index, operation]) => ({ index, operation })),
+    );
+
+    run.status = 'running';
+    const from = run.steps.length;
+    let applied = 0;
+
+    for (const batch of batches) {
+      options.onStep?.(batch.label, done.size + applied, plan.length);
+
+      try {
+        await this.applyBatch(batch);
+      } catch (error) {
+        await this.abort(run, error, options.rollbackOnFailure, from);
+      }
+
+      for (const step of batch.steps) {
+        await this.journal.recordStep(run, step.index, step.operation);
+      }
+      applied += batch.steps.length;
+    }
+
+    await this.journal.finish(run);
+    return { applied, skipped: done.size };
+  }
+
+  /**
+   * Apply one batch in a single round trip, without journaling
+   */
+  async applyBatch(batch: PlanBatch): Promise<void> {
+    if (batch.collection) {
+      await this.client.applyCollectionOperations(
+        batch.collection,
+        batch.steps.map((step) => step.operation),
+      );
+    } else {
+      await this.client.applyOperation(batch.steps[0]!.operation);
+    }
+  }
+
+  /**
+   * Group operations into batches (see `PlanExecutor.batch`)
+   */
+  static batchOperations(operations: MigrationOperation[]): PlanBatch[] {
+    return this.batch(
+      operations.map((operation, index) => ({ index, operation })),
+    );
+  }
+
+  /**
+   * Group steps into round trips, in dependency order: collection creates,
+   * renames and updates first (plan order), then one batch of field, index
+   * and rule changes per collection, then view creates and view query
+   * changes once the collections they select from are up to date, then
+   * collection deletes once nothing references them any more.
+   */
+  static batch(steps: PlanStep[]): PlanBatch[] {
+    const first: PlanBatch[] = [];
+    const scoped = new Map<string, PlanBatch>();
+    const views: PlanBatch[] = [];
+    const last: PlanBatch[] = [];
+
+    for (const step of steps) {
+      const { operation } = step;
+
+      if (PocketBaseClient.isCollectionScoped(operation)) {
+        const name = operation.collection!;
+        const batch = scoped.get(name) || {
+          label: '',
+          collection: name,
+          steps: [],
+        };
+        batch.steps.push(step);
+        batch.label =
+          batch.steps.length === 1
+            ? operation.summary
+            : `Apply ${batch.steps.length} changes to '${name}'`;
+        scoped.set(name, batch);
+        continue;
+      }
+
+      const batch = { label: operation.summary, steps: [step] };
+      if (operation.kind === 'deleteCollection') last.push(batch);
+      else if (operation.payload?.type === 'view') views.push(batch);
+      else first.push(batch);
+    }
+
+    // Views keep their plan order, which puts the views they read first
+    const viewQueryStep = (batch: PlanBatch) =>
+      batch.steps.find((step) => step.operation.kind === 'updateViewQuery');
+    const batches = [...scoped.values()];
+    views.push(...batches.filter(viewQueryStep));
+    views.sort(
+      (a, b) =>
+        (viewQueryStep(a) ?? a.steps[0]!).index -
+        (viewQueryStep(b) ?? b.steps[0]!).index,
+    );
+
+    return [
+      ...first,
+      ...batches.filter((batch) => !viewQueryStep(batch)),
+      ...views,
+      ...last,
+    ];
+  }
+
+  /**
+   * Apply the inverse of each step completed since `from`, newest first, and
+   * return the steps whose changes could not all be reverted: operations
+   * without an inverse are skipped, and records rewritten by assisted
+   * strategies (backfill, dedupe) keep their new values.
+   */
+  async rollback(run: JournalRun, from = 0): Promise<RollbackResult> {
+    const result: RollbackResult = { skipped: [], dataKept: [] };
+
+    for (const step of run.steps.slice(from).reverse()) {
+      if (step.operation.strategies?.length) {
+        result.dataKept.push(step.operation.summary);
+      }
+      const inverse = SchemaDiff.invertOperation(step.operation);
+      if (!inverse) {
+        result.skipped.push(step.operation.summary);
+        continue;
+      }
+      await this.client.applyOperation(inverse);
+    }
+
+    return result;
+  }
+
+  /**
+   * Journal a failed run, optionally roll back the steps this attempt
+   * completed (from index `from` of `run.steps`), and rethrow with context.
+   * Steps from an earlier attempt stay journaled for `--resume`.
+   */
+  async abort(
+    run: JournalRun,
+    error: unknown,
+    rollbackOnFailure = false,
+    from = 0,
+  ): Promise<never> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await this.journal.fail(run, error);
+
+    if (!rollbackOnFailure) {
+      throw new Error(
+        `${message} (${run.steps.length} completed steps journaled; rerun with --resume to continue)`,
+      );
+    }
+
+    const reverted = run.steps.length - from;
+    const { skipped, dataKept } = await this.rollback(run, from);
+    run.steps = run.steps.slice(0, from);
+    if (from > 0) await this.journal.fail(run, error);
+    else await this.journal.finish(run);
+
+    const notes = [
+      skipped.length > 0
+        ? `rolled back; could not revert: ${skipped.join('; ')}`
+        : `rolled back ${reverted} completed steps`,
+    ];
+    if (dataKept.length > 0) {
+      notes.push(
+        `warning: records changed by backfill or dedupe were not restored: ${dataKept.join('; ')}`,
+      );
+    }
+    if (from > 0) {
+      notes.push(
+        `${from} steps from the earlier run are still applied; rerun with --resume to continue`,
+      );
+    }
+    throw new Error(`${message} (${notes.join('; ')})`);
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'bun:test';
+import { FieldsAdapter } from './pocketbase-adapter.js';
+
+describe('FieldsAdapter.setUnique', () => {
+  const adapter = new FieldsAdapter();
+
+  test('finds the unique index of a renamed collection by its column', () => {
+    const collection = {
+      name: 'articles',
+      indexes: [
+        'CREATE UNIQUE INDEX `idx_unique_posts_slug` ON `posts` (`slug`)',
+      ],
+    };
+
+    adapter.setUnique(collection, 'slug', true);
+    expect(collection.indexes).toHaveLength(1);
+
+    adapter.setUnique(collection, 'slug', false);
+    expect(collection.indexes).toEqual([]);
+  });
+
+  test('leaves unique indexes PocketVex did not create', () => {
+    const index = 'CREATE UNIQUE INDEX `idx_slug` ON `posts` (`slug`)';
+    const collection = { name: 'posts', indexes: [index] };
+
+    adapter.setUnique(collection, 'slug', false);
+    expect(collection.indexes).toEqual([index]);
+    expect(adapter.fromApiCollection(collection).indexes).toEqual([index]);
+  });
+});
+
+describe('FieldsAdapter auth options', () => {
+  const adapter = new FieldsAdapter();
+
+  test('reads auth settings without token secrets', () => {
+    const collection = adapter.fromApiCollection({
+      name: 'users',
+      type: 'auth',
+      fields: [],
+      authToken: { duration: 3600, secret: 'hidden' },
+      passwordAuth: { enabled: true, identityFields: ['email'] },
+    });
+
+    expect(collection.auth).toEqual({
+      authToken: { duration: 3600 },
+      passwordAuth: { enabled: true, identityFields: ['email'] },
+    });
+  });
+
+  test('merges declared settings into the existing ones', () => {
+    const collection = {
+      authToken: { duration: 3600, secret: 'hidden' },
+      oauth2: { enabled: false, providers: [{ name: 'google' }] },
+    };
+    adapter.applyAuth(collection, {
+      authToken: { duration: 60 },
+      oauth2: { enabled: true },
+    });
+
+    expect(collection).toEqual({
+      authToken: { duration: 60, secret: 'hidden' },
+      oauth2: { enabled: true, providers: [{ name: 'google' }] },
+    });
+  });
+});
@@ -0,0 +1,461 @@
+/**
+ * PocketBase API adapters
+ * PocketBase 0.23 replaced admins with the `_superusers` auth collection and
+ * collection `schema` (fields with nested `options`) with flat `fields`.
+ * Adapters translate between PocketVex schema types and either API shape.
+ */
+
+import type PocketBase from 'pocketbase';
+import type {
+  SchemaAuthOptions,
+  SchemaCollection,
+  SchemaField,
+  SchemaRules,
+} from '../types/schema.js';
+
+export interface PocketBaseAdapter {
+  /** `legacy` for PocketBase <= 0.22, `fields` for 0.23+ */
+  readonly version: 'legacy' | 'fields';
+  /** Property holding the field list on API collections */
+  readonly fieldsKey: 'schema' | 'fields';
+
+  /** Convert an API collection to a PocketVex collection */
+  fromApiCollection(collection: any): SchemaCollection;
+  /** Build the API body used to create a collection */
+  toApiCollection(collection: SchemaCollection): any;
+  /** Build the API representation of a single field */
+  toApiField(field: SchemaField): any;
+  /**
+   * Apply a field's `unique` flag to an API collection. Legacy fields carry it
+   * themselves; newer servers need a unique index.
+   */
+  setUnique(collection: any, fieldName: string, unique: boolean): void;
+  /** Write collection rules onto an API collection */
+  applyRules(collection: any, rules: SchemaRules): void;
+  /** Write declared auth settings onto an API auth collection */
+  applyAuth(collection: any, auth: SchemaAuthOptions): void;
+  /** Write the query of an API view collection */
+  applyViewQuery(collection: any, query: string): void;
+}
+
+/**
+ * Rule properties shared by both API versions ('' and undefined become null)
+ */
+const applyRecordRules = (collection: any, rules: SchemaRules) => {
+  collection.listRule = rules.list || null;
+  collection.viewRule = rules.view || null;
+  collection.createRule = rules.create || null;
+  collection.updateRule = rules.update || null;
+  collection.deleteRule = rules.delete || null;
+};
+
+const fromApiRules = (collection: any): SchemaRules => ({
+  list: collection.listRule,
+  view: collection.viewRule,
+  create: collection.createRule,
+  update: collection.updateRule,
+  delete: collection.deleteRule,
+});
+
+/** Auth settings stored as top-level collection properties on 0.23+ */
+const AUTH_KEYS = [
+  'passwordAuth',
+  'oauth2',
+  'otp',
+  'mfa',
+  'authAlert',
+  'authToken',
+  'passwordResetToken',
+  'emailChangeToken',
+  'verificationToken',
+  'fileToken',
+  'verificationTemplate',
+  'resetPasswordTemplate',
+  'confirmEmailChangeTemplate',
+] as const;
+
+/** Auth settings PocketBase <= 0.22 keeps in the collection `options` */
+const LEGACY_AUTH_KEYS = [
+  'minPasswordLength',
+  'requireEmail',
+  'onlyVerified',
+  'onlyEmailDomains',
+  'exceptEmailDomains',
+] as const;
+
+/** Field options PocketBase <= 0.22 names differently, by 0.23+ name */
+const LEGACY_OPTION_NAMES: Record<string, string> = {
+  onlyInt: 'noDecimal',
+  convertURLs: 'convertUrls',
+};
+
+const OPTION_NAMES_FROM_LEGACY = Object.fromEntries(
+  Object.entries(LEGACY_OPTION_NAMES).map(([name, legacy]) => [legacy, name]),
+);
+
+const renameOptions = (options: any, names: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(options || {}).map(([key, value]) => [
+      names[key] ?? key,
+      value,
+    ]),
+  );
+
+/**
+ * Generate a field ID when the schema does not pin one
+ */
+const fieldId = (field: SchemaField) =>
+  field.id || `field_${field.name}_${Date.now()}`;
+
+/**
+ * PocketBase <= 0.22: `schema` array, field settings nested under `options`
+ */
+export class LegacyAdapter implements PocketBaseAdapter {
+  readonly version = 'legacy';
+  readonly fieldsKey = 'schema';
+
+  fromApiCollection(collection: any): SchemaCollection {
+    const options = collection.options || {};
+    const isAuth = collection.type === 'auth';
+
+    return {
+      id: collection.id,
+      name: collection.name,
+      type: collection.type,
+      system: collection.system,
+      schema:
+        collection.schema?.map((field: any) => ({
+          id: field.id,
+          name: field.name,
+          type: field.type,
+          required: field.required,
+          unique: field.unique,
+          options: {
+            ...renameOptions(field.options, OPTION_NAMES_FROM_LEGACY),
+            ...(field.presentable !== undefined
+              ? { presentable: field.presentable }
+              : {}),
+          },
+        })) || [],
+      indexes: collection.indexes || [],
+      rules: isAuth
+        ? { ...fromApiRules(collection), manage: options.manageRule }
+        : fromApiRules(collection),
+      ...(isAuth ? { auth: this.fromApiAuth(options) } : {}),
+      ...(collection.type === 'view' ? { viewQuery: options.query } : {}),
+    };
+  }
+
+  toApiCollection(collection: SchemaCollection): any {
+    const isView = collection.type === 'view';
+    const apiCollection: any = {
+      name: collection.name,
+      type: collection.type || 'base',
+      system: collection.system || false,
+      // The server derives view fields from the query
+      schema: isView
+        ? []
+        : (collection.schema || []).map((field) => this.toApiField(field)),
+      indexes: isView ? [] : collection.indexes || [],
+      options: {},
+    };
+    this.applyRules(apiCollection, collection.rules || {});
+    if (collection.type === 'auth') {
+      this.applyAuth(apiCollection, collection.auth || {});
+    }
+    if (isView) this.applyViewQuery(apiCollection, collection.viewQuery || '');
+    return apiCollection;
+  }
+
+  toApiField(field: SchemaField): any {
+    const { presentable, ...options } = field.options || {};
+    return {
+      id: fieldId(field),
+      name: field.name,
+      type: field.type,
+      required: field.required || false,
+      unique: field.unique || false,
+      ...(presentable !== undefined ? { presentable } : {}),
+      options: renameOptions(options, LEGACY_OPTION_NAMES),
+    };
+  }
+
+  setUnique(): void {
+    // Stored on the field itself
+  }
+
+  applyRules(collection: any, rules: SchemaRules): void {
+    applyRecordRules(collection, rules);
+    // Per-authentication rules only exist from 0.23
+    if (rules.manage !== undefined) {
+      collection.options = {
+        ...collection.options,
+        manageRule: rules.manage || null,
+      };
+    }
+  }
+
+  applyAuth(collection: any, auth: SchemaAuthOptions): void {
+    const options = { ...collection.options };
+
+    if (auth.passwordAuth) {
+      const current = this.fromApiAuth(options).passwordAuth!;
+      // Declaring identity fields implies password sign-in is wanted
+      const enabled =
+        auth.passwordAuth.enabled ??
+        (current.enabled || auth.passwordAuth.identityFields !== undefined);
+      const currentFields = current.identityFields!;
+      const identityFields =
+        auth.passwordAuth.identityFields ??
+        (currentFields.length > 0 ? currentFields : ['email']);
+      options.allowEmailAuth =
+        Boolean(enabled) && identityFields.includes('email');
+      options.allowUsernameAuth =
+        Boolean(enabled) && identityFields.includes('username');
+    }
+    if (auth.oauth2?.enabled !== undefined) {
+      options.allowOAuth2Auth = auth.oauth2.enabled;
+    }
+    for (const key of LEGACY_AUTH_KEYS) {
+      if (auth[key] !== undefined) options[key] = auth[key];
+    }
+
+    collection.options = options;
+  }
+
+  applyViewQuery(collection: any, query: string): void {
+    collection.options = { ...collection.options, query };
+  }
+
+  /**
+   * Express legacy auth options in the 0.23 vocabulary used by the schema
+   */
+  private fromApiAuth(options: any): SchemaAuthOptions {
+    const identityFields = [
+      ...(options.allowEmailAuth ? ['email'] : []),
+      ...(options.allowUsernameAuth ? ['username'] : []),
+    ];
+    const auth: SchemaAuthOptions = {
+      passwordAuth: { enabled: identityFields.length > 0, identityFields },
+      oauth2: { enabled: Boolean(options.allowOAuth2Auth) },
+    };
+    for (const key of LEGACY_AUTH_KEYS) {
+      if (options[key] !== undefined) (auth as any)[key] = options[key];
+    }
+    return auth;
+  }
+}
+
+/**
+ * PocketBase 0.23+: flat `fields` array, system fields listed alongside user
+ * fields, and uniqueness expressed as unique indexes
+ */
+export class FieldsAdapter implements PocketBaseAdapter {
+  readonly version = 'fields';
+  readonly fieldsKey = 'fields';
+
+  /** Timestamps older servers added implicitly to every collection */
+  private static readonly TIMESTAMP_FIELDS = [
+    { name: 'created', type: 'autodate', onCreate: true, onUpdate: false },
+    { name: 'updated', type: 'autodate', onCreate: true, onUpdate: true },
+  ];
+
+  fromApiCollection(collection: any): SchemaCollection {
+    const uniqueFields = new Set<string>();
+    const indexes = (collection.indexes || []).filter((index: string) => {
+      const field = this.uniqueIndexField(index);
+      if (field) uniqueFields.add(field);
+      return !field;
+    });
+
+    const schema = (collection.fields || [])
+      // System and timestamp fields exist implicitly, as they did before 0.23
+      .filter((field: any) => !field.system && !this.isTimestampField(field))
+      .map((field: any) => {
+        // Everything besides the common properties is a type-specific option
+        const { id, name, type, required, system, ...options } = field;
+        return {
+          id,
+          name,
+          type,
+          required,
+          unique: uniqueFields.has(name),
+          options,
+        };
+      });
+
+    const isAuth = collection.type === 'auth';
+
+    return {
+      id: collection.id,
+      name: collection.name,
+      type: collection.type,
+      system: collection.system,
+      schema,
+      indexes,
+      rules: isAuth
+        ? {
+            ...fromApiRules(collection),
+            auth: collection.authRule,
+            manage: collection.manageRule,
+          }
+        : fromApiRules(collection),
+      ...(isAuth ? { auth: this.fromApiAuth(collection) } : {}),
+      ...(collection.type === 'view'
+        ? { viewQuery: collection.viewQuery }
+        : {}),
+    };
+  }
+
+  toApiCollection(collection: SchemaCollection): any {
+    if (collection.type === 'view') {
+      // The server derives view fields from the query
+      const view = {
+        name: collection.name,
+        type: 'view',
+        system: collection.system || false,
+        fields: [],
+        indexes: [],
+      };
+      this.applyRules(view, collection.rules || {});
+      this.applyViewQuery(view, collection.viewQuery || '');
+      return view;
+    }
+
+    const fields = (collection.schema || []).map((field) =>
+      this.toApiField(field),
+    );
+    for (const timestamp of FieldsAdapter.TIMESTAMP_FIELDS) {
+      if (!fields.some((field) => field.name === timestamp.name)) {
+        fields.push({ ...timestamp });
+      }
+    }
+
+    const apiCollection = {
+      name: collection.name,
+      type: collection.type || 'base',
+      system: collection.system || false,
+      fields,
+      indexes: [...(collection.indexes || [])],
+    };
+    this.applyRules(apiCollection, collection.rules || {});
+    if (collection.type === 'auth') {
+      this.applyAuth(apiCollection, collection.auth || {});
+    }
+    for (const field of collection.schema || []) {
+      if (field.unique) this.setUnique(apiCollection, field.name, true);
+    }
+    return apiCollection;
+  }
+
+  toApiField(field: SchemaField): any {
+    return {
+      id: fieldId(field),
+      name: field.name,
+      type: field.type,
+      required: field.required || false,
+      ...(field.options || {}),
+    };
+  }
+
+  setUnique(collection: any, fieldName: string, unique: boolean): void {
+    const indexes: string[] = collection.indexes || [];
+    const existing = indexes.find(
+      (index) => this.uniqueIndexField(index) === fieldName,
+    );
+
+    if (unique && !existing) {
+      indexes.push(this.uniqueIndex(collection.name, fieldName));
+    } else if (!unique && existing) {
+      indexes.splice(indexes.indexOf(existing), 1);
+    }
+    collection.indexes = indexes;
+  }
+
+  applyRules(collection: any, rules: SchemaRules): void {
+    applyRecordRules(collection, rules);
+    // Left untouched unless declared: a null authRule blocks all sign-ins
+    if (rules.auth !== undefined) collection.authRule = rules.auth;
+    if (rules.manage !== undefined) {
+      collection.manageRule = rules.manage || null;
+    }
+  }
+
+  applyAuth(collection: any, auth: SchemaAuthOptions): void {
+    for (const key of AUTH_KEYS) {
+      const value = auth[key];
+      if (value === undefined) continue;
+
+      // Merge nested settings so undeclared properties (e.g. secrets) survive
+      collection[key] =
+        typeof value === 'object' && !Array.isArray(value)
+          ? { ...collection[key], ...value }
+          : value;
+    }
+  }
+
+  applyViewQuery(collection: any, query: string): void {
+    collection.viewQuery = query;
+  }
+
+  /**
+   * Read auth settings, leaving out token secrets
+   */
+  private fromApiAuth(collection: any): SchemaAuthOptions {
+    const auth: any = {};
+    for (const key of AUTH_KEYS) {
+      if (collection[key] === undefined) continue;
+      auth[key] = key.endsWith('Token')
+        ? { duration: collection[key].duration }
+        : collection[key];
+    }
+    return auth;
+  }
+
+  /**
+   * Index PocketVex creates for a field marked `unique`
+   */
+  private uniqueIndex(collectionName: string, fieldName: string): string {
+    return `CREATE UNIQUE INDEX \`idx_unique_${collectionName}_${fieldName}\` ON \`${collectionName}\` (\`${fieldName}\`)`;
+  }
+
+  /**
+   * Field name when `index` is one of PocketVex's unique-field indexes.
+   * Matched on the indexed column, since the name and table keep the old
+   * collection name after a rename
+   */
+  private uniqueIndexField(index: string): string | undefined {
+    return index.match(
+      /^CREATE UNIQUE INDEX `idx_unique_\w+` ON `\w+` \(`(\w+)`\)$/,
+    )?.[1];
+  }
+
+  private isTimestampField(field: any): boolean {
+    return (
+      field.type === 'autodate' &&
+      FieldsAdapter.TIMESTAMP_FIELDS.some(
+        (timestamp) => timestamp.name === field.name,
+      )
+    );
+  }
+}
+
+/**
+ * Authenticate as a superuser/admin and pick the adapter matching the server.
+ * Servers before 0.23 have no `_superusers` collection and answer 404.
+ */
+export async function authenticateAdmin(
+  pb: PocketBase,
+  email: string,
+  password: string,
+): Promise<PocketBaseAdapter> {
+  try {
+    await pb.collection('_superusers').authWithPassword(email, password);
+    return new FieldsAdapter();
+  } catch (error: any) {
+    if (error?.status !== 404) throw error;
+  }
+
+  await pb.admins.authWithPassword(email, password);
+  return new LegacyAdapter();
+}
@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeHost } from '../test/fake-host.js';
+
+describe('PocketBaseClient collection renames', () => {
+  test('renames in place, keeping fields and records', async () => {
+    const host = new FakeHost(
+      [{ name: 'posts', fields: [{ name: 'title', type: 'text' }] }],
+      { posts: [{ title: 'Hello' }] },
+    );
+
+    await host.client().applyOperation({
+      kind: 'renameCollection',
+      summary: "Rename collection 'posts' → 'articles'",
+      collection: 'articles',
+      payload: { from: 'posts', to: 'articles', current: { id: 'id_posts' } },
+    });
+
+    expect(host.log).toEqual(['update:posts']);
+    expect(host.collection('articles')?.fields).toEqual([
+      { name: 'title', type: 'text' },
+    ]);
+    expect(host.records.articles).toMatchObject([{ title: 'Hello' }]);
+  });
+});
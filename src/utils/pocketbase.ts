@@ -7,13 +7,24 @@ import PocketBase from 'pocketbase';
 import type {
   SchemaDefinition,
   SchemaCollection,
+  SchemaField,
   MigrationOperation,
   PocketBaseConfig,
 } from '../types/schema.js';
+import { AssistedStrategies } from './assisted-strategies.js';
+import { MIGRATIONS_COLLECTION } from './migration-ledger.js';
+import { SchemaRelations } from './relations.js';
+import {
+  authenticateAdmin,
+  LegacyAdapter,
+  type PocketBaseAdapter,
+} from './pocketbase-adapter.js';
 
 export class PocketBaseClient {
   public pb: PocketBase;
   private config: PocketBaseConfig;
+  /** API shape of the connected server, detected on authentication */
+  public adapter: PocketBaseAdapter = new LegacyAdapter();
 
   constructor(config: PocketBaseConfig) {
     this.config = config;
@@ -25,7 +36,8 @@ export class PocketBaseClient {
    */
   async authenticate(): Promise<void> {
     try {
-      await this.pb.admins.authWithPassword(
+      this.adapter = await authenticateAdmin(
+        this.pb,
         this.config.adminEmail,
         this.config.adminPassword,
       );
@@ -42,29 +54,14 @@ export class PocketBaseClient {
       const collections = await this.pb.collections.getFullList();
 
       return {
-        collections: collections.map((col: any) => ({
-          id: col.id,
-          name: col.name,
-          type: col.type,
-          system: col.system,
-          schema:
-            col.schema?.map((field: any) => ({
-              id: field.id,
-              name: field.name,
-              type: field.type,
-              required: field.required,
-              unique: field.unique,
-              options: field.options || {},
-            })) || [],
-          indexes: col.indexes || [],
-          rules: {
-            list: col.listRule,
-            view: col.viewRule,
-            create: col.createRule,
-            update: col.updateRule,
-            delete: col.deleteRule,
-          },
-        })),
+        collections: collections
+          // The migration ledger is PocketVex bookkeeping and system
+          // collections (`_superusers`, `_otps`, ...) belong to the host, so
+          // neither is user schema
+          .filter(
+            (col: any) => col.name !== MIGRATIONS_COLLECTION && !col.system,
+          )
+          .map((col: any) => this.adapter.fromApiCollection(col)),
       };
     } catch (error) {
       throw new Error(`Failed to fetch current schema: ${error}`);
@@ -75,7 +72,12 @@ export class PocketBaseClient {
    * Apply a migration operation to PocketBase
    */
   async applyOperation(operation: MigrationOperation): Promise<void> {
-    const attemptOperation = async () => {
+    if (PocketBaseClient.isCollectionScoped(operation)) {
+      await this.applyCollectionOperations(operation.collection!, [operation]);
+      return;
+    }
+
+    await this.withRetry(`apply operation '${operation.summary}'`, async () => {
       switch (operation.kind) {
         case 'createCollection':
           await this.createCollection(operation.payload);
@@ -86,33 +88,92 @@ export class PocketBaseClient {
         case 'deleteCollection':
           await this.deleteCollection(operation.payload);
           break;
-        case 'addField':
-          await this.addField(operation.collection!, operation.payload);
-          break;
-        case 'updateField':
-          await this.updateField(
-            operation.collection!,
-            operation.field!,
-            operation.payload,
-          );
-          break;
-        case 'deleteField':
-          await this.deleteField(operation.collection!, operation.field!);
-          break;
-        case 'addIndex':
-          await this.addIndex(operation.collection!, operation.payload);
-          break;
-        case 'deleteIndex':
-          await this.deleteIndex(operation.collection!, operation.payload);
-          break;
-        case 'updateRules':
-          await this.updateRules(operation.collection!, operation.payload);
+        case 'renameCollection':
+          await this.updateCollection({
+            id: operation.payload.current.id,
+            name: operation.payload.to,
+          });
           break;
         default:
           throw new Error(`Unknown operation type: ${operation.kind}`);
       }
-    };
+    });
+  }
+
+  /**
+   * Apply several field, index and rule operations on one collection with a
+   * single fetch and a single update. Either all of them land or none do.
+   * Assisted strategies prepare the collection's records first.
+   */
+  async applyCollectionOperations(
+    collectionName: string,
+    operations: MigrationOperation[],
+  ): Promise<void> {
+    const description =
+      operations.length === 1
+        ? `apply operation '${operations[0]!.summary}'`
+        : `apply ${operations.length} operations on '${collectionName}'`;
+
+    const fields = operations.flatMap((operation) =>
+      operation.kind === 'addField'
+        ? [operation.payload]
+        : operation.kind === 'updateField' || operation.kind === 'typeChange'
+        ? [operation.payload.desired]
+        : [],
+    );
+
+    for (const operation of operations) {
+      for (const strategy of operation.strategies || []) {
+        await this.withRetry(
+          `${strategy.kind} '${strategy.field}' in '${collectionName}'`,
+          async () => {
+            await AssistedStrategies.run(this.pb, collectionName, strategy);
+          },
+        );
+      }
+    }
+
+    await this.withRetry(description, async () => {
+      const idsByName = await this.collectionIdsFor(fields);
+      const collection = await this.pb.collections.getOne(collectionName);
+      collection[this.adapter.fieldsKey] =
+        collection[this.adapter.fieldsKey] || [];
+      collection.indexes = collection.indexes || [];
 
+      for (const operation of operations) {
+        this.mutateCollection(collection, operation, idsByName);
+      }
+
+      await this.pb.collections.update(collection.id, collection);
+    });
+  }
+
+  /**
+   * Whether an operation only changes fields, indexes or rules of an
+   * existing collection, so it can be batched with others on that collection
+   */
+  static isCollectionScoped(operation: MigrationOperation): boolean {
+    return [
+      'addField',
+      'updateField',
+      'typeChange',
+      'deleteField',
+      'renameField',
+      'addIndex',
+      'deleteIndex',
+      'updateRules',
+      'updateAuth',
+      'updateViewQuery',
+    ].includes(operation.kind);
+  }
+
+  /**
+   * Retry rate-limited requests with exponential backoff
+   */
+  private async withRetry(
+    description: string,
+    attemptOperation: () => Promise<void>,
+  ): Promise<void> {
     const maxAttempts = 5;
     let attempt = 0;
     while (true) {
@@ -131,9 +192,7 @@ export class PocketBaseClient {
           await new Promise((r) => setTimeout(r, backoff));
           continue;
         }
-        throw new Error(
-          `Failed to apply operation '${operation.summary}': ${message}`,
-        );
+        throw new Error(`Failed to ${description}: ${message}`);
       }
     }
   }
@@ -142,178 +201,161 @@ export class PocketBaseClient {
    * Create a new collection
    */
   private async createCollection(collection: SchemaCollection): Promise<void> {
-    // Ensure schema fields have IDs
-    const schemaWithIds = (collection.schema || []).map((field: any) => ({
-      id: field.id || `field_${field.name}_${Date.now()}`,
-      name: field.name,
-      type: field.type,
-      required: field.required || false,
-      unique: field.unique || false,
-      options: field.options || {},
-    }));
-
-    await this.pb.collections.create({
-      name: collection.name,
-      type: collection.type || 'base',
-      system: collection.system || false,
-      schema: schemaWithIds,
-      indexes: collection.indexes || [],
-      listRule: collection.rules?.list || null,
-      viewRule: collection.rules?.view || null,
-      createRule: collection.rules?.create || null,
-      updateRule: collection.rules?.update || null,
-      deleteRule: collection.rules?.delete || null,
-    });
+    const fields = collection.schema || [];
+    const idsByName = await this.collectionIdsFor(fields);
+
+    await this.pb.collections.create(
+      this.adapter.toApiCollection({
+        ...collection,
+        schema: SchemaRelations.toIds(fields, idsByName),
+      }),
+    );
   }
 
   /**
    * Update an existing collection
+   * Properties left undefined keep their current value, so a name-only
+   * payload renames the collection without touching its fields or records.
    */
   private async updateCollection(collection: SchemaCollection): Promise<void> {
     const existing = await this.pb.collections.getOne(collection.id!);
-
-    await this.pb.collections.update(collection.id!, {
+    const updated = {
       ...existing,
-      name: collection.name,
-      type: collection.type || 'base',
-      system: collection.system || false,
-      schema: collection.schema || [],
-      indexes: collection.indexes || [],
-      listRule: collection.rules?.list || null,
-      viewRule: collection.rules?.view || null,
-      createRule: collection.rules?.create || null,
-      updateRule: collection.rules?.update || null,
-      deleteRule: collection.rules?.delete || null,
-    });
+      name: collection.name ?? existing.name,
+      type: collection.type ?? existing.type,
+      system: collection.system ?? existing.system,
+      [this.adapter.fieldsKey]: collection.schema
+        ? collection.schema.map((field) => this.adapter.toApiField(field))
+        : existing[this.adapter.fieldsKey],
+      indexes: collection.indexes ?? existing.indexes,
+    };
+    if (collection.rules) this.adapter.applyRules(updated, collection.rules);
+    if (collection.auth) this.adapter.applyAuth(updated, collection.auth);
+    if (collection.viewQuery !== undefined) {
+      this.adapter.applyViewQuery(updated, collection.viewQuery);
+    }
+
+    await this.pb.collections.update(collection.id!, updated);
   }
 
   /**
    * Delete a collection
    */
   private async deleteCollection(collection: SchemaCollection): Promise<void> {
-    await this.pb.collections.delete(collection.id!);
+    await this.pb.collections.delete(collection.id || collection.name);
   }
 
   /**
-   * Add a field to a collection
+   * Apply a field, index or rule operation to a fetched collection in memory
    */
-  private async addField(collectionName: string, field: any): Promise<void> {
-    // First, get the collection by name
-    const collections = await this.pb.collections.getFullList();
-    const collection = collections.find(
-      (col: any) => col.name === collectionName,
-    );
-
-    if (!collection) {
-      throw new Error(`Collection '${collectionName}' not found`);
-    }
-
-    // Ensure the field has the correct format
-    const fieldWithId = {
-      id: field.id || `field_${field.name}_${Date.now()}`,
-      name: field.name,
-      type: field.type,
-      required: field.required || false,
-      unique: field.unique || false,
-      options: field.options || {},
+  private mutateCollection(
+    collection: any,
+    operation: MigrationOperation,
+    idsByName: Map<string, string>,
+  ) {
+    const { kind, payload } = operation;
+    const { adapter } = this;
+    const key = adapter.fieldsKey;
+    const collectionName = collection.name;
+    const toApiField = (field: SchemaField) =>
+      adapter.toApiField(SchemaRelations.toIds([field], idsByName)[0]!);
+
+    const findField = (predicate: (f: any) => boolean, fieldName: string) => {
+      const field = collection[key].find(predicate);
+      if (!field) {
+        throw new Error(
+          `Field '${fieldName}' not found in collection '${collectionName}'`,
+        );
+      }
+      return field;
     };
 
-    // Add the field to the schema
-    collection.schema.push(fieldWithId);
-
-    // Update the collection
-    await this.pb.collections.update(collection.id, collection);
-  }
+    switch (kind) {
+      case 'addField':
+        collection[key].push(toApiField(payload));
+        adapter.setUnique(collection, payload.name, Boolean(payload.unique));
+        break;
+
+      case 'updateField':
+      case 'typeChange': {
+        const field = findField(
+          (f) => f.name === operation.field,
+          operation.field!,
+        );
+        Object.assign(field, { ...toApiField(payload.desired), id: field.id });
+        if (payload.desired.unique !== undefined) {
+          adapter.setUnique(collection, field.name, payload.desired.unique);
+        }
+        break;
+      }
 
-  /**
-   * Update a field in a collection
-   */
-  private async updateField(
-    collectionName: string,
-    fieldName: string,
-    payload: any,
-  ): Promise<void> {
-    // First, get the collection by name
-    const collections = await this.pb.collections.getFullList();
-    const collection = collections.find(
-      (col: any) => col.name === collectionName,
-    );
+      case 'deleteField':
+        collection[key] = collection[key].filter(
+          (f: any) => f.name !== operation.field,
+        );
+        adapter.setUnique(collection, operation.field!, false);
+        break;
+
+      // Rename in place, keeping the field ID so existing data is preserved
+      case 'renameField': {
+        const field = findField(
+          (f) =>
+            payload.current?.id
+              ? f.id === payload.current.id
+              : f.name === payload.from,
+          payload.from,
+        );
+        field.name = payload.to;
 
-    if (!collection) {
-      throw new Error(`Collection '${collectionName}' not found`);
-    }
+        // Move a PocketVex unique index along with the field
+        const indexCount = collection.indexes.length;
+        adapter.setUnique(collection, payload.from, false);
+        if (collection.indexes.length < indexCount) {
+          adapter.setUnique(collection, payload.to, true);
+        }
+        break;
+      }
 
-    const fieldIndex = collection.schema.findIndex(
-      (f: any) => f.name === fieldName,
-    );
+      case 'addIndex':
+        collection.indexes.push(payload);
+        break;
 
-    if (fieldIndex === -1) {
-      throw new Error(
-        `Field '${fieldName}' not found in collection '${collectionName}'`,
-      );
-    }
+      case 'deleteIndex':
+        collection.indexes = collection.indexes.filter(
+          (i: string) => i !== payload,
+        );
+        break;
 
-    collection.schema[fieldIndex] = {
-      ...collection.schema[fieldIndex],
-      ...payload.desired,
-    };
-    await this.pb.collections.update(collection.id, collection);
-  }
+      case 'updateRules':
+        adapter.applyRules(collection, payload);
+        break;
 
-  /**
-   * Delete a field from a collection
-   */
-  private async deleteField(
-    collectionName: string,
-    fieldName: string,
-  ): Promise<void> {
-    const collection = await this.pb.collections.getOne(collectionName);
-    collection.schema = collection.schema.filter(
-      (f: any) => f.name !== fieldName,
-    );
-    await this.pb.collections.update(collection.id, collection);
-  }
+      case 'updateAuth':
+        adapter.applyAuth(collection, payload);
+        break;
 
-  /**
-   * Add an index to a collection
-   */
-  private async addIndex(collectionName: string, index: string): Promise<void> {
-    const collection = await this.pb.collections.getOne(collectionName);
-    if (!collection.indexes) collection.indexes = [];
-    collection.indexes.push(index);
-    await this.pb.collections.update(collection.id, collection);
-  }
+      case 'updateViewQuery':
+        adapter.applyViewQuery(collection, payload);
+        break;
 
-  /**
-   * Delete an index from a collection
-   */
-  private async deleteIndex(
-    collectionName: string,
-    index: string,
-  ): Promise<void> {
-    const collection = await this.pb.collections.getOne(collectionName);
-    if (collection.indexes) {
-      collection.indexes = collection.indexes.filter(
-        (i: string) => i !== index,
-      );
-      await this.pb.collections.update(collection.id, collection);
+      default:
+        throw new Error(`Unknown operation type: ${kind}`);
     }
   }
 
   /**
-   * Update collection rules
+   * Map collection names to IDs on the host, fetched only when some relation
+   * field references its target by name
    */
-  private async updateRules(collectionName: string, rules: any): Promise<void> {
-    const collection = await this.pb.collections.getOne(collectionName);
-
-    await this.pb.collections.update(collection.id, {
-      ...collection,
-      listRule: rules.list || null,
-      viewRule: rules.view || null,
-      createRule: rules.create || null,
-      updateRule: rules.update || null,
-      deleteRule: rules.delete || null,
+  private async collectionIdsFor(
+    fields: SchemaField[],
+  ): Promise<Map<string, string>> {
+    if (!SchemaRelations.hasNamedTargets(fields)) return new Map();
+
+    const collections = await this.pb.collections.getFullList({
+      fields: 'id,name',
     });
+    return new Map(collections.map((col: any) => [col.name, col.id]));
   }
 
   /**
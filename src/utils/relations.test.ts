@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeHost } from '../test/fake-host.js';
+import type { SchemaDefinition } from '../types/schema.js';
+import { SchemaDiff } from './diff.js';
+import { SchemaRelations } from './relations.js';
+
+const byName: SchemaDefinition = {
+  collections: [
+    { name: 'users', schema: [] },
+    {
+      name: 'posts',
+      schema: [
+        {
+          name: 'author',
+          type: 'relation',
+          options: { collection: 'users', maxSelect: 1 },
+        },
+      ],
+    },
+  ],
+};
+
+/** The same schema as pulled from a host with its own collection IDs */
+const pulled = (usersId: string): SchemaDefinition => ({
+  collections: [
+    { id: usersId, name: 'users', schema: [] },
+    {
+      id: 'p1',
+      name: 'posts',
+      schema: [
+        {
+          name: 'author',
+          type: 'relation',
+          options: { collectionId: usersId, maxSelect: 1 },
+        },
+      ],
+    },
+  ],
+});
+
+describe('SchemaRelations', () => {
+  test('toNames replaces known collection IDs with names', () => {
+    expect(SchemaRelations.toNames(pulled('u1')).collections[1]).toEqual({
+      id: 'p1',
+      ...byName.collections[1]!,
+    });
+  });
+
+  test('toIds resolves names to the host IDs', () => {
+    const fields = SchemaRelations.toIds(
+      byName.collections[1]!.schema!,
+      new Map([['users', 'u2']]),
+    );
+    expect(fields[0]!.options).toEqual({ collectionId: 'u2', maxSelect: 1 });
+
+    expect(() =>
+      SchemaRelations.toIds(byName.collections[1]!.schema!, new Map()),
+    ).toThrow("Relation field 'author' targets unknown collection 'users'");
+  });
+
+  test('host-specific IDs are not reported as changes', () => {
+    const plan = SchemaDiff.buildDiffPlan(byName, pulled('u1'));
+    expect([...plan.safe, ...plan.assisted, ...plan.unsafe]).toEqual([]);
+  });
+
+  test('creates relation fields with the target ID on the host', async () => {
+    const host = new FakeHost([{ name: 'users', fields: [] }]);
+    await host.client().applyOperation({
+      kind: 'createCollection',
+      summary: "Create collection 'posts'",
+      collection: 'posts',
+      payload: byName.collections[1],
+    });
+
+    expect(host.collection('posts')?.fields[0]).toMatchObject({
+      name: 'author',
+      type: 'relation',
+      collectionId: 'id_users',
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Relation target helpers
+ * Schemas declare relations by collection name; PocketBase stores collection IDs.
+ * These helpers translate between the two so one schema works on any host, and
+ * report which collections a collection depends on.
+ */
+
+import type {
+  SchemaDefinition,
+  SchemaCollection,
+  SchemaField,
+} from '../types/schema.js';
+
+export class SchemaRelations {
+  /**
+   * Collection a relation field points at: its name when declared by name,
+   * otherwise the raw collection ID
+   */
+  static target(field: SchemaField): string | undefined {
+    if (field.type !== 'relation') return undefined;
+    return field.options?.collection ?? field.options?.collectionId;
+  }
+
+  /**
+   * Collections a view collection selects from, i.e. the tables named after
+   * FROM and JOIN in its query
+   */
+  static viewSources(collection: SchemaCollection): string[] {
+    if (collection.type !== 'view' || !collection.viewQuery) return [];
+
+    const sources = new Set<string>();
+    for (const match of collection.viewQuery.matchAll(
+      /\b(?:FROM|JOIN)\s+[`"[]?(\w+)/gi,
+    )) {
+      sources.add(match[1]!);
+    }
+    return [...sources];
+  }
+
+  /**
+   * Rewrite relation fields to reference collections by name. IDs are looked
+   * up in `known`; IDs that match no known collection are left as they are.
+   */
+  static toNames(
+    schema: SchemaDefinition,
+    known: SchemaCollection[] = schema.collections,
+  ): SchemaDefinition {
+    const namesById = new Map<string, string>();
+    for (const collection of known) {
+      if (collection.id) namesById.set(collection.id, collection.name);
+    }
+
+    return {
+      ...schema,
+      collections: schema.collections.map((collection) => ({
+        ...collection,
+        schema: collection.schema?.map((field) => {
+          const id = field.options?.collectionId;
+          const name = id ? namesById.get(id) : undefined;
+          if (field.type !== 'relation' || field.options?.collection || !name) {
+            return field;
+          }
+
+          const { collectionId, ...options } = field.options!;
+          return { ...field, options: { ...options, collection: name } };
+        }),
+      })),
+    };
+  }
+
+  /**
+   * Rewrite name-based relation fields to the IDs of the target host
+   */
+  static toIds(
+    fields: SchemaField[],
+    idsByName: Map<string, string>,
+  ): SchemaField[] {
+    return fields.map((field) => {
+      const name = field.options?.collection;
+      if (field.type !== 'relation' || !name) return field;
+
+      const id = idsByName.get(name);
+      if (!id) {
+        throw new Error(
+          `Relation field '${field.name}' targets unknown collection '${name}'`,
+        );
+      }
+
+      const { collection, ...options } = field.options!;
+      return { ...field, options: { ...options, collectionId: id } };
+    });
+  }
+
+  /**
+   * Whether any field still needs its relation target resolved to an ID
+   */
+  static hasNamedTargets(fields: SchemaField[]): boolean {
+    return fields.some(
+      (field) => field.type === 'relation' && !!field.options?.collection,
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { RuleParser } from './rule-parser.js';
+
+const names = (rule: string) =>
+  RuleParser.identifiers(RuleParser.parse(rule)).map(
+    (identifier) => identifier.name,
+  );
+
+describe('RuleParser', () => {
+  test('groups && and || with parentheses', () => {
+    const node = RuleParser.parse(
+      "@request.auth.id != '' && (author = @request.auth.id || status = 'live')",
+    );
+
+    expect(node).toMatchObject({
+      type: 'and',
+      children: [
+        {
+          type: 'comparison',
+          operator: '!=',
+          left: { type: 'identifier', name: '@request.auth.id', column: 1 },
+          right: { type: 'literal', value: '' },
+        },
+        { type: 'or', children: [{ operator: '=' }, { operator: '=' }] },
+      ],
+    });
+  });
+
+  test('reads numbers, quoted strings and comments', () => {
+    expect(RuleParser.parse("views > -1.5 && title ~ 'a' // note")).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'comparison',
+          operator: '>',
+          left: { type: 'identifier', name: 'views', column: 1 },
+          right: { type: 'literal', value: -1.5, raw: '-1.5' },
+        },
+        {
+          type: 'comparison',
+          operator: '~',
+          left: { type: 'identifier', name: 'title', column: 17 },
+          right: { type: 'literal', value: 'a', raw: "'a'" },
+        },
+      ],
+    });
+  });
+
+  test('collects identifiers from both sides and function arguments', () => {
+    expect(names("strftime('%Y', created) = year && a = @now")).toEqual([
+      'created',
+      'year',
+      'a',
+      '@now',
+    ]);
+  });
+
+  test('reports syntax errors with their position', () => {
+    expect(() => RuleParser.parse("title = 'x")).toThrow(
+      'Unterminated string at column 9',
+    );
+    expect(() => RuleParser.parse('(a = 1')).toThrow(
+      "Missing ')' for '(' at column 1",
+    );
+    expect(() => RuleParser.parse('title = ')).toThrow('Expected a value');
+  });
+
+  test('negates rules without a ! operator', () => {
+    const negated = (rule: string) =>
+      RuleParser.format(RuleParser.negate(RuleParser.parse(rule)));
+
+    expect(negated("a = 1 && (b ~ 'x' || c >= @now)")).toBe(
+      "a != 1 || (b !~ 'x' && c < @now)",
+    );
+    expect(negated("tags ?= 'news' || length(tags) > 2")).toBe(
+      "tags != 'news' && length(tags) <= 2",
+    );
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * PocketBase rule parser
+ * Parses API rules and filters (the `fexpr` grammar) so they can be checked
+ * before PocketBase sees them
+ */
+
+export type RuleOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | '~'
+  | '!~'
+  | '?='
+  | '?!='
+  | '?>'
+  | '?>='
+  | '?<'
+  | '?<='
+  | '?~'
+  | '?!~';
+
+export type RuleOperand =
+  | { type: 'identifier'; name: string; column: number }
+  | {
+      type: 'literal';
+      value: string | number | boolean | null;
+      /** Source text, with quotes and escapes as written */
+      raw: string;
+    }
+  | { type: 'function'; name: string; args: RuleOperand[]; column: number };
+
+export type RuleNode =
+  | { type: 'and' | 'or'; children: RuleNode[] }
+  | {
+      type: 'comparison';
+      operator: RuleOperator;
+      left: RuleOperand;
+      right: RuleOperand;
+    };
+
+interface Token {
+  kind: 'identifier' | 'text' | 'number' | 'operator' | '(' | ')' | ',';
+  value: string;
+  column: number;
+}
+
+const OPERATORS = new Set<string>([
+  '=',
+  '!=',
+  '>',
+  '>=',
+  '<',
+  '<=',
+  '~',
+  '!~',
+  '?=',
+  '?!=',
+  '?>',
+  '?>=',
+  '?<',
+  '?<=',
+  '?~',
+  '?!~',
+]);
+
+const NEGATED: Record<RuleOperator, RuleOperator> = {
+  '=': '!=',
+  '!=': '=',
+  '>': '<=',
+  '>=': '<',
+  '<': '>=',
+  '<=': '>',
+  '~': '!~',
+  '!~': '~',
+  '?=': '!=',
+  '?!=': '=',
+  '?>': '<=',
+  '?>=': '<',
+  '?<': '>=',
+  '?<=': '>',
+  '?~': '!~',
+  '?!~': '~',
+};
+
+const LITERALS: Record<string, boolean | null> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+export class RuleParser {
+  /**
+   * Parse a rule into a tree. Throws with the column of the first syntax
+   * error: unknown operators, unbalanced parentheses, missing operands.
+   */
+  static parse(rule: string): RuleNode {
+    const tokens = this.tokenize(rule);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const describe = (token?: Token) =>
+      token ? `'${token.value}' at column ${token.column}` : 'end of rule';
+
+    const operand = (): RuleOperand => {
+      const token = tokens[index++];
+      if (token?.kind === 'text') {
+        return {
+          type: 'literal',
+          value: token.value.slice(1, -1),
+          raw: token.value,
+        };
+      }
+      if (token?.kind === 'number') {
+        return {
+          type: 'literal',
+          value: Number(token.value),
+          raw: token.value,
+        };
+      }
+      if (token?.kind !== 'identifier') {
+        throw new Error(`Expected a value, found ${describe(token)}`);
+      }
+      if (token.value in LITERALS) {
+        return {
+          type: 'literal',
+          value: LITERALS[token.value]!,
+          raw: token.value,
+        };
+      }
+      if (peek()?.kind !== '(') {
+        return { type: 'identifier', name: token.value, column: token.column };
+      }
+
+      index++;
+      const args: RuleOperand[] = [];
+      while (peek()?.kind !== ')') {
+        args.push(operand());
+        if (peek()?.kind === ',') index++;
+        else if (peek()?.kind !== ')') {
+          throw new Error(
+            `Expected ',' or ')' in ${token.value}(), found ${describe(peek())}`,
+          );
+        }
+      }
+      index++;
+      return {
+        type: 'function',
+        name: token.value,
+        args,
+        column: token.column,
+      };
+    };
+
+    const term = (): RuleNode => {
+      const open = peek();
+      if (open?.kind === '(') {
+        index++;
+        const node = expression();
+        if (peek()?.kind !== ')') {
+          throw new Error(`Missing ')' for '(' at column ${open.column}`);
+        }
+        index++;
+        return node;
+      }
+
+      const left = operand();
+      const token = tokens[index++];
+      if (token?.kind !== 'operator' || !OPERATORS.has(token.value)) {
+        throw new Error(`Expected an operator, found ${describe(token)}`);
+      }
+      const right = operand();
+      return {
+        type: 'comparison',
+        operator: token.value as RuleOperator,
+        left,
+        right,
+      };
+    };
+
+    // && binds tighter than ||, as in the SQL PocketBase generates
+    const conjunction = (): RuleNode => {
+      const children = [term()];
+      while (peek()?.value === '&&') {
+        index++;
+        children.push(term());
+      }
+      return children.length === 1 ? children[0]! : { type: 'and', children };
+    };
+
+    const expression = (): RuleNode => {
+      const children = [conjunction()];
+      while (peek()?.value === '||') {
+        index++;
+        children.push(conjunction());
+      }
+      return children.length === 1 ? children[0]! : { type: 'or', children };
+    };
+
+    if (tokens.length === 0) throw new Error('Rule is empty');
+    const node = expression();
+    if (index < tokens.length) {
+      const token = tokens[index]!;
+      throw new Error(
+        token.kind === ')'
+          ? `Unexpected ')' at column ${token.column}`
+          : `Expected '&&' or '||', found ${describe(token)}`,
+      );
+    }
+    return node;
+  }
+
+  /**
+   * Every identifier in a parsed rule, including function arguments
+   */
+  static identifiers(
+    node: RuleNode,
+  ): Extract<RuleOperand, { type: 'identifier' }>[] {
+    if (node.type !== 'comparison') {
+      return node.children.flatMap((child) => this.identifiers(child));
+    }
+
+    const visit = (
+      operand: RuleOperand,
+    ): Extract<RuleOperand, { type: 'identifier' }>[] => {
+      if (operand.type === 'identifier') return [operand];
+      if (operand.type === 'function') return operand.args.flatMap(visit);
+      return [];
+    };
+    return [...visit(node.left), ...visit(node.right)];
+  }
+
+  /**
+   * The rule matching exactly the records `node` does not. PocketBase has no
+   * `!`, so comparisons are flipped and `&&`/`||` swapped. Without `?`,
+   * operators on multi-value fields must hold for every value, so the
+   * negation of an any-of operator (`?=`) is the plain one (`!=`).
+   */
+  static negate(node: RuleNode): RuleNode {
+    if (node.type !== 'comparison') {
+      return {
+        type: node.type === 'and' ? 'or' : 'and',
+        children: node.children.map((child) => this.negate(child)),
+      };
+    }
+    return { ...node, operator: NEGATED[node.operator] };
+  }
+
+  /**
+   * Write a parsed rule back as rule text
+   */
+  static format(node: RuleNode): string {
+    if (node.type === 'comparison') {
+      return `${this.formatOperand(node.left)} ${node.operator} ${this.formatOperand(node.right)}`;
+    }
+    return node.children
+      .map((child) =>
+        child.type === 'comparison'
+          ? this.format(child)
+          : `(${this.format(child)})`,
+      )
+      .join(node.type === 'and' ? ' && ' : ' || ');
+  }
+
+  private static formatOperand(operand: RuleOperand): string {
+    switch (operand.type) {
+      case 'identifier':
+        return operand.name;
+      case 'literal':
+        return operand.raw;
+      case 'function':
+        return `${operand.name}(${operand.args
+          .map((arg) => this.formatOperand(arg))
+          .join(', ')})`;
+    }
+  }
+
+  private static tokenize(rule: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < rule.length) {
+      const char = rule[i]!;
+      const column = i + 1;
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (rule.startsWith('//', i)) {
+        const end = rule.indexOf('\n', i);
+        i = end < 0 ? rule.length : end;
+      } else if (char === '(' || char === ')' || char === ',') {
+        tokens.push({ kind: char, value: char, column });
+        i++;
+      } else if (char === '"' || char === "'") {
+        let end = i + 1;
+        while (end < rule.length && rule[end] !== char) {
+          end += rule[end] === '\\' ? 2 : 1;
+        }
+        if (end >= rule.length) {
+          throw new Error(`Unterminated string at column ${column}`);
+        }
+        tokens.push({ kind: 'text', value: rule.slice(i, end + 1), column });
+        i = end + 1;
+      } else if (/[-\d]/.test(char)) {
+        const match = /^-?\d+(\.\d+)?/.exec(rule.slice(i));
+        if (!match) throw new Error(`Unexpected '${char}' at column ${column}`);
+        tokens.push({ kind: 'number', value: match[0], column });
+        i += match[0].length;
+      } else if (/[@\w]/.test(char)) {
+        const value = /^[@\w.:]+/.exec(rule.slice(i))![0];
+        tokens.push({ kind: 'identifier', value, column });
+        i += value.length;
+      } else if (/[=!<>~?&|]/.test(char)) {
+        const value = /^[=!<>~?&|]+/.exec(rule.slice(i))![0];
+        if (!OPERATORS.has(value) && value !== '&&' && value !== '||') {
+          throw new Error(`Unknown operator '${value}' at column ${column}`);
+        }
+        tokens.push({ kind: 'operator', value, column });
+        i += value.length;
+      } else {
+        throw new Error(`Unexpected '${char}' at column ${column}`);
+      }
+    }
+
+    return tokens;
+  }
+}
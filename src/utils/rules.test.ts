@@ -0,0 +1,16 @@
+import { describe, expect, test } from 'bun:test';
+import { RuleParser } from './rule-parser.js';
+import { allow } from './rules.js';
+
+describe('allow.not', () => {
+  test('builds a rule PocketBase can parse', () => {
+    const rule = allow.not(allow.and(allow.auth(), allow.owner('author')))!;
+
+    expect(rule).toBe('@request.auth.id = "" || author != @request.auth.id');
+    expect(() => RuleParser.parse(rule)).not.toThrow();
+  });
+
+  test('leaves an undefined rule undefined', () => {
+    expect(allow.not(undefined)).toBeUndefined();
+  });
+});
@@ -8,6 +8,8 @@
  * - Combine helpers with and()/or()/not() for readability.
  */
 
+import { RuleParser } from './rule-parser.js';
+
 export type Rule = string | undefined;
 
 const paren = (s: string) => `(${s})`;
@@ -38,10 +40,17 @@ export const allow = {
     `${relation}.${ownerField} = @request.auth.id`,
   // Boolean field gate for published visibility
   published: (field = 'isPublished'): Rule => `${field} = true`,
+  // Compare a field with a literal value (e.g., equals('status', 'published'))
+  equals: (field: string, value: string | number | boolean): Rule =>
+    `${field} = ${typeof value === 'string' ? JSON.stringify(value) : value}`,
   // Combine with AND / OR / NOT
   and: (...rules: Rule[]): Rule => join(rules, '&&'),
   or: (...rules: Rule[]): Rule => join(rules, '||'),
-  not: (rule: Rule): Rule => (rule ? `!(${rule})` : undefined),
+  // PocketBase has no `!`, so the rule is rewritten into its negation
+  not: (rule: Rule): Rule =>
+    rule
+      ? RuleParser.format(RuleParser.negate(RuleParser.parse(rule)))
+      : undefined,
 };
 
 export const pb = allow; // alias
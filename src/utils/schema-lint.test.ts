@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import { schema as bundledSchema } from '../../pocketvex/schema/index.js';
+import type { SchemaDefinition } from '../types/schema.js';
+import { SchemaLint } from './schema-lint.js';
+
+const rules = (issues: ReturnType<typeof SchemaLint.lint>) =>
+  issues.map((issue) => `${issue.severity}:${issue.rule}`);
+
+describe('SchemaLint', () => {
+  test('the bundled schema has no errors', () => {
+    const issues = SchemaLint.lint(bundledSchema as SchemaDefinition);
+    expect(issues.filter((issue) => issue.severity === 'error')).toEqual([]);
+  });
+
+  test('relations to host collections are accepted', () => {
+    const schema: SchemaDefinition = {
+      collections: [
+        {
+          name: 'posts',
+          schema: [
+            {
+              name: 'author',
+              type: 'relation',
+              options: { collection: 'users' },
+            },
+          ],
+        },
+      ],
+    };
+    expect(SchemaLint.lint(schema)).toEqual([]);
+  });
+
+  test('relations to undeclared collections are warnings', () => {
+    const schema: SchemaDefinition = {
+      collections: [
+        {
+          name: 'posts',
+          schema: [
+            {
+              name: 'tags',
+              type: 'relation',
+              options: { collection: 'tags' },
+            },
+          ],
+        },
+      ],
+    };
+    const issues = SchemaLint.lint(schema);
+    expect(rules(issues)).toEqual(['warning:relation-target']);
+    expect(SchemaLint.hasErrors(issues)).toBe(false);
+  });
+
+  test('rule identifiers resolve through relations', () => {
+    const schema: SchemaDefinition = {
+      collections: [
+        { name: 'authors', schema: [{ name: 'name', type: 'text' }] },
+        {
+          name: 'posts',
+          schema: [
+            { name: 'title', type: 'text' },
+            {
+              name: 'author',
+              type: 'relation',
+              options: { collection: 'authors' },
+            },
+          ],
+          rules: {
+            list: "author.name = 'x' && title != ''",
+            view: "titel = 'x'",
+            create: 'title = ',
+            update: 'author.nope = 1',
+          },
+        },
+      ],
+    };
+
+    expect(SchemaLint.lintRules(schema).map((issue) => issue.message)).toEqual([
+      "view rule: 'titel' at column 1: unknown field 'titel' in 'posts'",
+      'create rule: Expected a value, found end of rule',
+      "update rule: 'author.nope' at column 1: unknown field 'nope' in 'authors'",
+    ]);
+  });
+
+  test('rules may reference host collections with @collection', () => {
+    const schema: SchemaDefinition = {
+      collections: [
+        {
+          name: 'posts',
+          schema: [{ name: 'title', type: 'text' }],
+          rules: {
+            list: '@collection.users.id ?= @request.auth.id',
+            view: '@collection.tags.id ?= @request.auth.id',
+          },
+        },
+      ],
+    };
+
+    expect(SchemaLint.lintRules(schema).map((issue) => issue.message)).toEqual([
+      "view rule: '@collection.tags.id' at column 1: unknown collection 'tags'",
+    ]);
+  });
+});
@@ -0,0 +1,669 @@
+/**
+ * Schema linter
+ * Static checks on a schema definition that catch mistakes PocketBase would
+ * otherwise only report as a 400 during apply
+ */
+
+import type {
+  LintIssue,
+  SchemaCollection,
+  SchemaDefinition,
+  SchemaField,
+} from '../types/schema.js';
+import { RuleParser } from './rule-parser.js';
+import { SchemaRelations } from './relations.js';
+
+const FIELD_TYPES = new Set<SchemaField['type']>([
+  'text',
+  'editor',
+  'number',
+  'bool',
+  'email',
+  'url',
+  'date',
+  'autodate',
+  'select',
+  'json',
+  'file',
+  'relation',
+  'password',
+  'geoPoint',
+]);
+
+/** Fields PocketBase adds to every collection, so schemas must not declare them */
+const SYSTEM_FIELDS = ['id', 'created', 'updated'];
+
+/** Fields PocketBase adds to auth collections */
+const AUTH_SYSTEM_FIELDS = [
+  'email',
+  'emailVisibility',
+  'verified',
+  'password',
+  'tokenKey',
+];
+
+/** Columns an auth collection's indexes may use besides its own fields */
+const AUTH_INDEX_COLUMNS = [...AUTH_SYSTEM_FIELDS, 'username'];
+
+/** Fields every auth record exposes, e.g. to `@request.auth` */
+const AUTH_RECORD_FIELDS = [
+  ...AUTH_INDEX_COLUMNS,
+  'collectionId',
+  'collectionName',
+];
+
+/**
+ * Collections PocketBase creates itself, which schemas may relate to without
+ * declaring them
+ */
+const HOST_COLLECTIONS = [
+  'users',
+  '_superusers',
+  '_authOrigins',
+  '_externalAuths',
+  '_mfas',
+  '_otps',
+];
+
+const RULE_KEYS = [
+  'list',
+  'view',
+  'create',
+  'update',
+  'delete',
+  'auth',
+  'manage',
+] as const;
+
+/** Datetime macros rules may compare against */
+const RULE_MACROS = new Set([
+  '@now',
+  '@second',
+  '@minute',
+  '@hour',
+  '@weekday',
+  '@day',
+  '@month',
+  '@year',
+  '@yesterday',
+  '@tomorrow',
+  '@todayStart',
+  '@todayEnd',
+  '@monthStart',
+  '@monthEnd',
+  '@yearStart',
+  '@yearEnd',
+]);
+
+const RULE_MODIFIERS = new Set(['isset', 'changed', 'length', 'each', 'lower']);
+
+/** Checks `lintRules` keeps */
+const RULE_CHECKS = new Set(['rule-syntax', 'rule-identifier']);
+
+const NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+const INDEX_PATTERN =
+  /^\s*CREATE\s+(?:UNIQUE\s+)?INDEX\s+(?:IF\s+NOT\s+EXISTS\s+)?[`"[]?(\w+)[`"\]]?\s+ON\s+[`"[]?(\w+)[`"\]]?\s*\(([\s\S]*)\)\s*(?:WHERE\s[\s\S]*)?;?\s*$/i;
+
+/**
+ * Schema source the issues are reported against
+ */
+export interface LintSource {
+  file: string;
+  /** File contents; read by the caller so linting stays synchronous */
+  content?: string;
+}
+
+export class SchemaLint {
+  /**
+   * Check a schema and return its issues, errors first. With a source, each
+   * issue is located at the declaration of its collection or field.
+   */
+  static lint(schema: SchemaDefinition, source?: LintSource): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const collections = schema.collections || [];
+    const names = new Set(collections.map((c) => c.name?.toLowerCase()));
+    const indexNames = new Map<string, string>();
+
+    const seen = new Set<string>();
+    for (const collection of collections) {
+      const report = (
+        severity: LintIssue['severity'],
+        rule: string,
+        message: string,
+        field?: string,
+      ) =>
+        issues.push({
+          severity,
+          rule,
+          message,
+          collection: collection.name,
+          ...(field ? { field } : {}),
+        });
+
+      if (!collection.name || !NAME_PATTERN.test(collection.name)) {
+        report(
+          'error',
+          'collection-name',
+          `Invalid collection name '${collection.name ?? ''}'`,
+        );
+        continue;
+      }
+
+      const key = collection.name.toLowerCase();
+      if (seen.has(key)) {
+        report(
+          'error',
+          'duplicate-collection',
+          `Collection '${collection.name}' is declared more than once`,
+        );
+      }
+      seen.add(key);
+
+      this.lintCollection(collection, names, report);
+      this.lintIndexes(collection, indexNames, report);
+      this.lintRuleExpressions(collection, collections, report);
+    }
+
+    const sorted = [
+      ...issues.filter((issue) => issue.severity === 'error'),
+      ...issues.filter((issue) => issue.severity === 'warning'),
+    ];
+    return source?.content
+      ? sorted.map((issue) => this.locate(issue, source))
+      : sorted;
+  }
+
+  /**
+   * Only the rule checks: syntax errors and identifiers that name no field,
+   * relation or request property
+   */
+  static lintRules(schema: SchemaDefinition, source?: LintSource): LintIssue[] {
+    return this.lint(schema, source).filter((issue) =>
+      RULE_CHECKS.has(issue.rule),
+    );
+  }
+
+  /**
+   * Whether any issue would make PocketBase reject the schema
+   */
+  static hasErrors(issues: LintIssue[]): boolean {
+    return issues.some((issue) => issue.severity === 'error');
+  }
+
+  private static lintCollection(
+    collection: SchemaCollection,
+    collectionNames: Set<string | undefined>,
+    report: Reporter,
+  ): void {
+    const isAuth = collection.type === 'auth';
+    const isView = collection.type === 'view';
+
+    if (isView && !collection.viewQuery?.trim()) {
+      report('error', 'view-query', 'View collection has no viewQuery');
+    }
+    if (!isView && collection.viewQuery) {
+      report(
+        'warning',
+        'view-query',
+        `viewQuery is ignored on ${collection.type || 'base'} collections`,
+      );
+    }
+    if (!isAuth && collection.auth) {
+      report(
+        'warning',
+        'auth-options',
+        'Auth options are ignored on non-auth collections',
+      );
+    }
+    if (collection.renamedFrom === collection.name) {
+      report(
+        'warning',
+        'renamed-from',
+        'renamedFrom is the same as the collection name',
+      );
+    }
+
+    const reserved = new Set([
+      ...SYSTEM_FIELDS,
+      ...(isAuth ? AUTH_SYSTEM_FIELDS : []),
+    ]);
+    const seen = new Set<string>();
+    for (const field of collection.schema || []) {
+      if (!field.name || !NAME_PATTERN.test(field.name)) {
+        report(
+          'error',
+          'field-name',
+          `Invalid field name '${field.name ?? ''}'`,
+          field.name,
+        );
+        continue;
+      }
+
+      const key = field.name.toLowerCase();
+      if (seen.has(key)) {
+        report(
+          'error',
+          'duplicate-field',
+          `Field '${field.name}' is declared more than once`,
+          field.name,
+        );
+      }
+      seen.add(key);
+
+      // Views may list system columns their query selects
+      if (!isView && reserved.has(field.name)) {
+        report(
+          'error',
+          'reserved-field',
+          `'${field.name}' is a system field and cannot be declared`,
+          field.name,
+        );
+      }
+
+      this.lintField(field, collectionNames, (severity, rule, message) =>
+        report(severity, rule, message, field.name),
+      );
+    }
+
+    const identityFields = collection.auth?.passwordAuth?.identityFields;
+    for (const name of isAuth ? identityFields || [] : []) {
+      if (name !== 'email' && !seen.has(name.toLowerCase())) {
+        report(
+          'error',
+          'identity-field',
+          `Identity field '${name}' is not a field of the collection`,
+        );
+      }
+    }
+  }
+
+  private static lintField(
+    field: SchemaField,
+    collectionNames: Set<string | undefined>,
+    report: Reporter,
+  ): void {
+    if (!FIELD_TYPES.has(field.type)) {
+      report('error', 'field-type', `Unknown field type '${field.type}'`);
+      return;
+    }
+
+    const options = field.options || {};
+
+    if (field.type === 'select') {
+      const values: unknown[] = Array.isArray(options.values)
+        ? options.values
+        : [];
+      if (values.length === 0) {
+        report('error', 'select-values', 'Select field has no values');
+      } else if (new Set(values).size < values.length) {
+        report('warning', 'select-values', 'Select field repeats a value');
+      }
+      const maxSelect = options.maxSelect ?? 1;
+      if (values.length > 0 && maxSelect > values.length) {
+        report(
+          'warning',
+          'select-values',
+          `maxSelect (${maxSelect}) is more than the ${values.length} values`,
+        );
+      }
+    }
+
+    if (field.type === 'relation') {
+      if (!options.collection && !options.collectionId) {
+        report(
+          'error',
+          'relation-target',
+          'Relation field has no target collection',
+        );
+      } else if (
+        options.collection &&
+        !collectionNames.has(options.collection.toLowerCase()) &&
+        !HOST_COLLECTIONS.includes(options.collection)
+      ) {
+        // It may exist on the host without being declared, so only warn
+        report(
+          'warning',
+          'relation-target',
+          `Relation targets collection '${options.collection}', which the schema does not declare`,
+        );
+      }
+    }
+
+    if (
+      typeof options.min === 'number' &&
+      typeof options.max === 'number' &&
+      options.max > 0 &&
+      options.min > options.max
+    ) {
+      report(
+        'error',
+        'min-max',
+        `min (${options.min}) is greater than max (${options.max})`,
+      );
+    }
+    if (
+      typeof options.minSelect === 'number' &&
+      typeof options.maxSelect === 'number' &&
+      options.minSelect > options.maxSelect
+    ) {
+      report(
+        'error',
+        'min-max',
+        `minSelect (${options.minSelect}) is greater than maxSelect (${options.maxSelect})`,
+      );
+    }
+
+    if (field.renamedFrom === field.name) {
+      report(
+        'warning',
+        'renamed-from',
+        'renamedFrom is the same as the field name',
+      );
+    }
+  }
+
+  /**
+   * Parse each declared rule and resolve its identifiers against the
+   * collection's fields, following relations into other collections
+   */
+  private static lintRuleExpressions(
+    collection: SchemaCollection,
+    collections: SchemaCollection[],
+    report: Reporter,
+  ): void {
+    for (const key of RULE_KEYS) {
+      const rule = collection.rules?.[key];
+      if (typeof rule !== 'string' || !rule.trim()) continue;
+
+      let identifiers;
+      try {
+        identifiers = RuleParser.identifiers(RuleParser.parse(rule));
+      } catch (error) {
+        report(
+          'error',
+          'rule-syntax',
+          `${key} rule: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+        );
+        continue;
+      }
+
+      for (const identifier of identifiers) {
+        const problem = this.resolveIdentifier(
+          identifier.name,
+          collection,
+          collections,
+        );
+        if (problem) {
+          report(
+            'error',
+            'rule-identifier',
+            `${key} rule: '${identifier.name}' at column ${identifier.column}: ${problem}`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Why an identifier does not resolve, or undefined when it does
+   */
+  private static resolveIdentifier(
+    name: string,
+    collection: SchemaCollection,
+    collections: SchemaCollection[],
+  ): string | undefined {
+    const [reference, modifier, ...rest] = name.startsWith('@collection.')
+      ? this.splitCollectionReference(name)
+      : name.split(':');
+    if (
+      rest.length > 0 ||
+      (modifier !== undefined && !RULE_MODIFIERS.has(modifier))
+    ) {
+      return `unknown modifier ':${rest.length > 0 ? rest.join(':') : modifier}'`;
+    }
+
+    const segments = reference!.split('.');
+    const [root, second, ...path] = segments;
+
+    if (!root!.startsWith('@')) {
+      return this.resolvePath(segments, collection, collections);
+    }
+    if (RULE_MACROS.has(root!) && segments.length === 1) return undefined;
+    if (root === '@collection') {
+      const target = collections.find((c) => c.name === second);
+      if (target) return this.resolvePath(path, target, collections);
+      // Host collections have fields the schema does not declare
+      return HOST_COLLECTIONS.includes(second!)
+        ? undefined
+        : `unknown collection '${second}'`;
+    }
+    if (root !== '@request') return `unknown macro '${root}'`;
+
+    switch (second) {
+      case 'method':
+      case 'context':
+        return path.length > 0
+          ? `'@request.${second}' has no fields`
+          : undefined;
+      case 'query':
+      case 'headers':
+        return undefined;
+      case 'body':
+      case 'data':
+        return this.resolvePath(path, collection, collections);
+      case 'auth': {
+        const authCollections = collections.filter((c) => c.type === 'auth');
+        if (path.length === 0 || authCollections.length === 0) return undefined;
+        const problems = authCollections.map((c) =>
+          this.resolvePath(path, c, collections),
+        );
+        return problems.includes(undefined) ? undefined : problems[0];
+      }
+      default:
+        return `unknown request property '${second}'`;
+    }
+  }
+
+  /**
+   * `@collection.name:alias.field:modifier` keeps the alias with the name
+   */
+  private static splitCollectionReference(name: string): string[] {
+    const match = /^(@collection\.\w+)(?::\w+)?(.*)$/.exec(name)!;
+    const [reference, ...modifiers] = `${match[1]}${match[2]}`.split(':');
+    return [reference!, ...modifiers];
+  }
+
+  /**
+   * Walk a dotted field path from a collection, following relations and
+   * back-relations (`posts_via_author`)
+   */
+  private static resolvePath(
+    segments: string[],
+    collection: SchemaCollection,
+    collections: SchemaCollection[],
+  ): string | undefined {
+    let current: SchemaCollection | undefined = collection;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i]!;
+      const isLast = i === segments.length - 1;
+      // Views and unresolved targets have no known fields to check against
+      if (!current || (current.type === 'view' && !current.schema?.length)) {
+        return undefined;
+      }
+
+      const system = [
+        ...SYSTEM_FIELDS,
+        ...(current.type === 'auth' ? AUTH_RECORD_FIELDS : []),
+      ];
+      if (system.includes(segment)) {
+        return isLast
+          ? undefined
+          : `'${segment}' has no field '${segments[i + 1]}'`;
+      }
+
+      const via = /^(\w+)_via_(\w+)$/.exec(segment);
+      if (via) {
+        const source = collections.find((c) => c.name === via[1]);
+        const field = source?.schema?.find((f) => f.name === via[2]);
+        if (!source || field?.type !== 'relation') {
+          return `no relation '${via[2]}' in '${via[1]}' for back-relation '${segment}'`;
+        }
+        current = source;
+        continue;
+      }
+
+      const field = current.schema?.find((f) => f.name === segment);
+      if (!field) return `unknown field '${segment}' in '${current.name}'`;
+      if (isLast || field.type === 'json') return undefined;
+      if (field.type !== 'relation') {
+        return `'${segment}' is a ${field.type} field and has no field '${segments[i + 1]}'`;
+      }
+
+      const target = SchemaRelations.target(field);
+      current = target
+        ? collections.find((c) => c.name === target || c.id === target)
+        : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check each index parses, targets its own collection and only uses
+   * columns the collection has. Index names are global in SQLite.
+   */
+  private static lintIndexes(
+    collection: SchemaCollection,
+    indexNames: Map<string, string>,
+    report: Reporter,
+  ): void {
+    const indexes = collection.indexes || [];
+    if (collection.type === 'view') {
+      if (indexes.length > 0) {
+        report(
+          'warning',
+          'index-syntax',
+          'Indexes are ignored on view collections',
+        );
+      }
+      return;
+    }
+
+    const columns = new Set(
+      [
+        ...SYSTEM_FIELDS,
+        ...(collection.type === 'auth' ? AUTH_INDEX_COLUMNS : []),
+        ...(collection.schema || []).map((field) => field.name),
+      ].map((name) => name?.toLowerCase()),
+    );
+
+    for (const index of indexes) {
+      const match = INDEX_PATTERN.exec(index);
+      if (!match) {
+        report('error', 'index-syntax', `Cannot parse index: ${index}`);
+        continue;
+      }
+      const [, name, table, columnList] = match;
+
+      const owner = indexNames.get(name!.toLowerCase());
+      if (owner) {
+        report(
+          'error',
+          'duplicate-index',
+          `Index '${name}' is already declared on '${owner}'`,
+        );
+      }
+      indexNames.set(name!.toLowerCase(), collection.name);
+
+      if (table!.toLowerCase() !== collection.name.toLowerCase()) {
+        report(
+          'error',
+          'index-table',
+          `Index '${name}' is on '${table}', not '${collection.name}'`,
+        );
+      }
+
+      for (const column of this.indexColumns(columnList!)) {
+        if (!columns.has(column.toLowerCase())) {
+          report(
+            'error',
+            'index-column',
+            `Index '${name}' references unknown column '${column}'`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Plain column names in an index's column list. Expressions such as
+   * `lower(email)` are skipped.
+   */
+  private static indexColumns(columnList: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of columnList) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+
+    return parts
+      .map((part) =>
+        part
+          .replace(/\s+COLLATE\s+\w+/i, '')
+          .replace(/\s+(ASC|DESC)\s*$/i, '')
+          .trim()
+          .replace(/^[`"[](.*)[`"\]]$/, '$1'),
+      )
+      .filter((part) => /^\w+$/.test(part));
+  }
+
+  /**
+   * Point an issue at the `name:` of its field, or else its collection
+   */
+  private static locate(issue: LintIssue, source: LintSource): LintIssue {
+    const content = source.content!;
+    const start = issue.collection
+      ? this.findName(content, issue.collection, 0)
+      : -1;
+    if (start < 0) return issue;
+
+    const offset = issue.field
+      ? this.findName(content, issue.field, start)
+      : start;
+    const position = offset < 0 ? start : offset;
+
+    const before = content.slice(0, position);
+    const line = before.split('\n').length;
+    const column = position - before.lastIndexOf('\n');
+    return { ...issue, location: { file: source.file, line, column } };
+  }
+
+  private static findName(content: string, name: string, from: number) {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(
+      `["']?name["']?\\s*:\\s*(['"\`])${escaped}\\1`,
+      'g',
+    );
+    pattern.lastIndex = from;
+    return pattern.exec(content)?.index ?? -1;
+  }
+}
+
+type Reporter = (
+  severity: LintIssue['severity'],
+  rule: string,
+  message: string,
+  field?: string,
+) => void;
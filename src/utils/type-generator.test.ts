@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { typeCheck } from '../test/type-check.js';
+import type { SchemaDefinition } from '../types/schema.js';
+import { TypeGenerator } from './type-generator.js';
+
+const schema: SchemaDefinition = {
+  collections: [
+    {
+      name: 'posts',
+      schema: [
+        { name: 'title', type: 'text', required: true },
+        {
+          name: 'author',
+          type: 'relation',
+          options: { collection: 'users', maxSelect: 1 },
+        },
+      ],
+    },
+    { name: 'authors', schema: [{ name: 'name', type: 'text' }] },
+  ],
+};
+
+describe('TypeGenerator.generateFiles', () => {
+  test('does not depend on the order collections are listed in', () => {
+    const reversed = { collections: [...schema.collections].reverse() };
+    expect(TypeGenerator.generateFiles(reversed)).toEqual(
+      TypeGenerator.generateFiles(schema),
+    );
+  });
+
+  test('adds validators only when asked', () => {
+    expect(Object.keys(TypeGenerator.generateFiles(schema))).toEqual([
+      'types.ts',
+      'api-client.ts',
+      'rules.ts',
+    ]);
+    expect(
+      Object.keys(TypeGenerator.generateFiles(schema, { validators: 'zod' })),
+    ).toContain('validators.ts');
+  });
+});
+
+describe('TypeGenerator.generateCollectionType', () => {
+  test('types view records from their declared fields, without inputs', () => {
+    const output = TypeGenerator.generateCollectionType({
+      name: 'post_stats',
+      type: 'view',
+      viewQuery: 'SELECT id, count(*) AS total FROM posts',
+      schema: [{ name: 'total', type: 'number', required: true }],
+    });
+
+    expect(output).toContain(
+      'export interface PostStatsRecord extends ViewRecord {',
+    );
+    expect(output).toContain('  total: number;');
+    expect(output).not.toContain('PostStatsCreate');
+  });
+});
+
+describe('TypeGenerator field types', () => {
+  const output = TypeGenerator.generateCollectionType({
+    name: 'articles',
+    schema: [
+      {
+        name: 'status',
+        type: 'select',
+        required: true,
+        options: { values: ['draft', 'live'], maxSelect: 1 },
+      },
+      {
+        name: 'labels',
+        type: 'select',
+        options: { values: ['a', 'b'], maxSelect: 3 },
+      },
+      {
+        name: 'author',
+        type: 'relation',
+        required: true,
+        options: { collection: 'users', maxSelect: 1 },
+      },
+      {
+        name: 'tags',
+        type: 'relation',
+        options: { collection: 'tags', maxSelect: 5 },
+      },
+      { name: 'gallery', type: 'file', options: { maxSelect: 4 } },
+      { name: 'meta', type: 'json', tsType: '{ views: number }' },
+    ],
+  });
+
+  test('writes select values as literals and multi-value fields as arrays', () => {
+    expect(output)
+      .toContain(`export interface ArticlesRecord extends BaseRecord {
+  status: 'draft' | 'live';
+  labels?: ('a' | 'b')[];
+  author: string;
+  tags?: string[];
+  gallery?: string[];
+  meta?: { views: number };
+  expand?: ArticlesExpand;
+}`);
+  });
+
+  test('types expanded relations by their target record', () => {
+    expect(output).toContain(`export interface ArticlesExpand {
+  author?: UsersRecord;
+  tags?: TagsRecord[];
+}`);
+  });
+});
+
+describe('generated rule builders', () => {
+  test('reject fields, paths and values the schema does not declare', async () => {
+    const files = TypeGenerator.generateFiles({
+      collections: [
+        {
+          name: 'users',
+          type: 'auth',
+          schema: [
+            {
+              name: 'role',
+              type: 'select',
+              options: { values: ['admin', 'member'], maxSelect: 1 },
+            },
+          ],
+        },
+        ...schema.collections,
+        {
+          name: 'comments',
+          schema: [
+            {
+              name: 'post',
+              type: 'relation',
+              options: { collection: 'posts', maxSelect: 1 },
+            },
+            { name: 'hidden', type: 'bool' },
+          ],
+        },
+      ],
+    });
+    expect(
+      await typeCheck({
+        'rules.ts': files['rules.ts']!,
+        'usage.ts': `import { rules } from './rules.js';
+
+rules.posts.owner('author');
+rules.posts.equals('title', 'x');
+rules.comments.relatedOwner('post');
+rules.comments.published('hidden');
+rules.users.role('admin');
+
+// @ts-expect-error misspelled owner field
+rules.posts.owner('autor');
+// @ts-expect-error unknown relation path
+rules.comments.relatedOwner('author');
+// @ts-expect-error not a select value
+rules.users.role('owner');
+// @ts-expect-error not a bool field
+rules.comments.published('post');
+`,
+      }),
+    ).toBe('');
+  }, 60000);
+});
+
+describe('types generate --check', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pocketvex-'));
+    await writeFile(join(dir, 'snapshot.json'), JSON.stringify(schema));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const run = (...args: string[]) =>
+    Bun.spawnSync(
+      [
+        process.execPath,
+        join(import.meta.dir, '../cli/index.ts'),
+        'types',
+        'generate',
+        '--schema',
+        'snapshot.json',
+        '--output',
+        'generated',
+        ...args,
+      ],
+      { cwd: dir, env: { ...process.env, CI: '1' } },
+    ).exitCode;
+
+  test('fails until the generated files are written', () => {
+    expect(run('--check')).toBe(1);
+    expect(run()).toBe(0);
+    expect(run('--check')).toBe(0);
+  }, 30000);
+});
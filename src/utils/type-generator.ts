@@ -8,8 +8,33 @@ import type {
   SchemaCollection,
   SchemaField,
 } from '../types/schema.js';
+import { SchemaRelations } from './relations.js';
+import {
+  ValidatorGenerator,
+  type ValidatorKind,
+} from './validator-generator.js';
 
 export class TypeGenerator {
+  /**
+   * Generate every file written to the generated directory, keyed by file
+   * name, optionally with validators. Collections are sorted by name so output does not depend on the
+   * order a host lists them in.
+   */
+  static generateFiles(
+    schema: SchemaDefinition,
+    options: { validators?: ValidatorKind } = {},
+  ): Record<string, string> {
+    const sorted = this.sortCollections(schema);
+    return {
+      'types.ts': `${this.generateTypes(sorted)}\n`,
+      'api-client.ts': `${this.generateApiClient(sorted)}\n`,
+      'rules.ts': `${this.generateRuleBuilders(sorted)}\n`,
+      ...(options.validators === 'zod'
+        ? { 'validators.ts': `${ValidatorGenerator.generateZod(sorted)}\n` }
+        : {}),
+    };
+  }
+
   /**
    * Generate TypeScript types from schema definition
    */
@@ -17,11 +42,20 @@ export class TypeGenerator {
     const imports = this.generateImports();
     const baseTypes = this.generateBaseTypes();
     const collectionTypes = this.generateCollectionTypes(schema);
-    const utilityTypes = this.generateUtilityTypes();
+    const utilityTypes = this.generateUtilityTypes(schema);
 
     return [imports, baseTypes, collectionTypes, utilityTypes].join('\n\n');
   }
 
+  private static sortCollections(schema: SchemaDefinition): SchemaDefinition {
+    return {
+      ...schema,
+      collections: [...schema.collections].sort((a, b) =>
+        a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+      ),
+    };
+  }
+
   /**
    * Generate import statements
    */
@@ -51,6 +85,11 @@ export interface AuthRecord extends BaseRecord {
   verified: boolean;
   lastResetSentAt?: string;
   lastVerificationSentAt?: string;
+}
+
+// View records only have the columns their query selects
+export interface ViewRecord {
+  id: string;
 }`;
   }
 
@@ -61,28 +100,8 @@ export interface AuthRecord extends BaseRecord {
     const types: string[] = [];
 
     for (const collection of schema.collections) {
-      const typeName = this.toPascalCase(collection.name);
-      const fields = this.generateFieldTypes(collection.schema || []);
-      const rules = this.generateRuleTypes(collection.rules);
-
       types.push(`// ${collection.name} collection
-export interface ${typeName}Record extends ${
-        collection.type === 'auth' ? 'AuthRecord' : 'BaseRecord'
-      } {
-${fields}
-}
-
-export interface ${typeName}Create {
-${this.generateCreateFields(collection.schema || [])}
-}
-
-export interface ${typeName}Update {
-${this.generateUpdateFields(collection.schema || [])}
-}
-
-export interface ${typeName}Rules {
-${rules}
-}`);
+${this.generateCollectionType(collection, schema)}`);
     }
 
     return types.join('\n\n');
@@ -146,7 +165,7 @@ ${rules}
   /**
    * Generate utility types
    */
-  private static generateUtilityTypes(): string {
+  private static generateUtilityTypes(schema: SchemaDefinition): string {
     return `// Utility types for API responses
 export interface PocketBaseResponse<T> {
   page: number;
@@ -166,10 +185,10 @@ export interface PocketBaseListParams {
 }
 
 // Collection name to type mapping
-export type CollectionName = ${this.generateCollectionNames()};
+export type CollectionName = ${this.generateCollectionNames(schema)};
 
 export type CollectionRecord<T extends CollectionName> =
-${this.generateCollectionRecordMapping()};
+${this.generateCollectionRecordMapping(schema)};
 
 // API client types
 export interface PocketBaseClient {
@@ -192,22 +211,22 @@ export interface PocketBaseCollection<T extends CollectionName> {
   /**
    * Generate collection names union type
    */
-  private static generateCollectionNames(): string {
-    // This would be populated from the actual schema
-    return `'users' | 'posts' | 'comments' | 'courses' | 'modules' | 'lessons'`;
+  private static generateCollectionNames(schema: SchemaDefinition): string {
+    return this.literalUnion(schema.collections.map((c) => c.name));
   }
 
   /**
    * Generate collection record mapping
    */
-  private static generateCollectionRecordMapping(): string {
-    return `  T extends 'users' ? UsersRecord :
-  T extends 'posts' ? PostsRecord :
-  T extends 'comments' ? CommentsRecord :
-  T extends 'courses' ? CoursesRecord :
-  T extends 'modules' ? ModulesRecord :
-  T extends 'lessons' ? LessonsRecord :
-  never;`;
+  private static generateCollectionRecordMapping(
+    schema: SchemaDefinition,
+  ): string {
+    return [
+      ...schema.collections.map(
+        (c) => `  T extends '${c.name}' ? ${this.toPascalCase(c.name)}Record :`,
+      ),
+      '  never',
+    ].join('\n');
   }
 
   /**
@@ -221,16 +240,24 @@ export interface PocketBaseCollection<T extends CollectionName> {
   }
 
   /**
-   * Get TypeScript type for a field
+   * Get TypeScript type for a field, as the SDK returns it
    */
   private static getTypeScriptType(field: SchemaField): string {
+    // select, file and relation fields hold arrays when more than one value is allowed
+    const multiple = (field.options?.maxSelect ?? 1) > 1;
+
     switch (field.type) {
       case 'text':
       case 'email':
       case 'url':
-      case 'select':
         return 'string';
 
+      case 'select': {
+        const values = field.options?.values || [];
+        const value = values.length > 0 ? this.literalUnion(values) : 'string';
+        return multiple ? this.arrayOf(value) : value;
+      }
+
       case 'number':
         return 'number';
 
@@ -238,16 +265,23 @@ export interface PocketBaseCollection<T extends CollectionName> {
         return 'boolean';
 
       case 'date':
+      case 'autodate':
         return 'string'; // ISO date string
 
+      case 'password':
+        return 'string'; // Write-only, never returned by the API
+
+      case 'geoPoint':
+        return '{ lon: number; lat: number }';
+
       case 'json':
-        return 'any';
+        return field.tsType ?? 'any';
 
       case 'file':
-        return 'string | string[]'; // File URLs
+        return multiple ? 'string[]' : 'string'; // File names
 
       case 'relation':
-        return 'string'; // Related record ID
+        return multiple ? 'string[]' : 'string'; // Related record IDs
 
       case 'editor':
         return 'string'; // HTML content
@@ -257,15 +291,91 @@ export interface PocketBaseCollection<T extends CollectionName> {
     }
   }
 
+  /**
+   * Generate the `expand` shape of a collection: its relation fields, and
+   * back-relations (`comments_via_post`) from collections pointing at it
+   */
+  private static generateExpandFields(
+    collection: SchemaCollection,
+    schema?: SchemaDefinition,
+  ): string {
+    const recordType = (target?: SchemaCollection) =>
+      target ? `${this.toPascalCase(target.name)}Record` : 'BaseRecord';
+
+    const forward = (collection.schema || [])
+      .filter((field) => field.type === 'relation')
+      .map((field) => {
+        const name = SchemaRelations.target(field);
+        const target = schema
+          ? this.relationTarget(field, schema)
+          : field.options?.collection
+            ? ({ name } as SchemaCollection)
+            : undefined;
+        const type = recordType(target);
+        const multiple = (field.options?.maxSelect ?? 1) > 1;
+        return `  ${field.name}?: ${multiple ? `${type}[]` : type};`;
+      });
+
+    // Back-relations can only be expanded from stored collections
+    const sources = (schema?.collections || []).filter(
+      (source) => source.type !== 'view',
+    );
+    const backward = sources.flatMap((source) =>
+      (source.schema || [])
+        .filter(
+          (field) =>
+            field.type === 'relation' &&
+            this.relationTarget(field, schema!) === collection,
+        )
+        .map((field) => {
+          // A unique single relation has at most one record pointing back
+          const single = field.unique && (field.options?.maxSelect ?? 1) <= 1;
+          const type = recordType(source);
+          return `  ${source.name}_via_${field.name}?: ${
+            single ? type : `${type}[]`
+          };`;
+        }),
+    );
+
+    return [...forward, ...backward].join('\n');
+  }
+
   /**
    * Generate types for a specific collection
    */
-  static generateCollectionType(collection: SchemaCollection): string {
+  static generateCollectionType(
+    collection: SchemaCollection,
+    schema?: SchemaDefinition,
+  ): string {
     const typeName = this.toPascalCase(collection.name);
-    const fields = this.generateFieldTypes(collection.schema || []);
+    const expandFields = this.generateExpandFields(collection, schema);
+    const fields = [
+      this.generateFieldTypes(collection.schema || []),
+      ...(expandFields ? [`  expand?: ${typeName}Expand;`] : []),
+    ]
+      .filter(Boolean)
+      .join('\n');
+    const expand = expandFields
+      ? `export interface ${typeName}Expand {
+${expandFields}
+}
+
+`
+      : '';
     const rules = this.generateRuleTypes(collection.rules);
 
-    return `export interface ${typeName}Record extends ${
+    // Views are read-only, so they get no create or update types
+    if (collection.type === 'view') {
+      return `${expand}export interface ${typeName}Record extends ViewRecord {
+${fields}
+}
+
+export interface ${typeName}Rules {
+${rules}
+}`;
+    }
+
+    return `${expand}export interface ${typeName}Record extends ${
       collection.type === 'auth' ? 'AuthRecord' : 'BaseRecord'
     } {
 ${fields}
@@ -285,35 +395,299 @@ ${rules}
   }
 
   /**
-   * Generate API client code
+   * Generate a module exporting a typed rules builder per collection. The
+   * builders are the `Rules` helpers with field names, relation paths and
+   * select values narrowed to what the schema declares.
+   */
+  static generateRuleBuilders(schema: SchemaDefinition): string {
+    const authCollections = schema.collections.filter(
+      (collection) => collection.type === 'auth',
+    );
+
+    // @request.auth may be a record of any auth collection
+    const authFields = new Map<string, Set<string>>();
+    for (const collection of authCollections) {
+      for (const [name, type] of this.ruleFieldTypes(collection)) {
+        authFields.set(name, (authFields.get(name) ?? new Set()).add(type));
+      }
+    }
+    const authDefault = authFields.has('role') ? " = 'role'" : '';
+    const authField = authFields.has('role') ? 'field?: F' : 'field: F';
+    // Without a declared auth collection (e.g. only the built-in `users`),
+    // the signed-in record's fields are unknown
+    const roleBuilders =
+      authCollections.length > 0
+        ? `  role<F extends keyof AuthRuleFields & string${authDefault}>(
+    name: AuthRuleFields[F],
+    ${authField},
+  ): Rule;
+  anyRole<F extends keyof AuthRuleFields & string${authDefault}>(
+    names: AuthRuleFields[F][],
+    ${authField},
+  ): Rule;`
+        : `  role(name: string, field?: string): Rule;
+  anyRole(names: string[], field?: string): Rule;`;
+
+    const collections = schema.collections.map((collection) => {
+      const typeName = this.toPascalCase(collection.name);
+      const fields = [...this.ruleFieldTypes(collection)]
+        .map(([name, type]) => `  ${name}: ${type};`)
+        .join('\n');
+      const ownerFields = this.ownerFields(collection, schema);
+      const relatedOwners = this.relationPaths(collection, schema)
+        .map(([path, target]) => {
+          const owners = this.ownerFields(target, schema);
+          return owners.length > 0
+            ? `  '${path}': ${this.literalUnion(owners)};`
+            : '';
+        })
+        .filter(Boolean)
+        .join('\n');
+
+      return `// ${collection.name} collection
+export interface ${typeName}RuleFields {
+${fields}
+}
+
+export interface ${typeName}RelatedOwners {
+${relatedOwners}
+}
+
+export type ${typeName}RuleBuilder = RuleBuilder<
+  ${typeName}RuleFields,
+  ${this.literalUnion(ownerFields)},
+  ${typeName}RelatedOwners
+>;`;
+    });
+
+    const builders = schema.collections
+      .map(
+        (collection) =>
+          `  ${collection.name}: Rules as unknown as ${this.toPascalCase(
+            collection.name,
+          )}RuleBuilder,`,
+      )
+      .join('\n');
+
+    return `/**
+ * Generated rule builders for PocketBase collections
+ * Auto-generated from schema definition
+ */
+
+import { Rules, type Rule } from 'pocketvex';
+
+// Fields of the signed-in record, for role checks
+export interface AuthRuleFields {
+${[...authFields]
+  .map(([name, types]) => `  ${name}: ${[...types].join(' | ')};`)
+  .join('\n')}
+}
+
+type BoolField<Fields> = {
+  [K in keyof Fields]: Fields[K] extends boolean ? K : never;
+}[keyof Fields] &
+  string;
+
+export interface RuleBuilder<
+  Fields,
+  OwnerField extends string,
+  RelatedOwners,
+> {
+  public(): Rule;
+  deny(): Rule;
+  auth(): Rule;
+${roleBuilders}
+  owner(field: OwnerField): Rule;
+  relatedOwner<P extends keyof RelatedOwners & string>(
+    relation: P,
+    ...ownerField: 'author' extends RelatedOwners[P]
+      ? [ownerField?: RelatedOwners[P]]
+      : [ownerField: RelatedOwners[P]]
+  ): Rule;
+  published(
+    ...field: 'isPublished' extends BoolField<Fields>
+      ? [field?: BoolField<Fields>]
+      : [field: BoolField<Fields>]
+  ): Rule;
+  equals<F extends keyof Fields & string>(field: F, value: Fields[F]): Rule;
+  and(...rules: Rule[]): Rule;
+  or(...rules: Rule[]): Rule;
+  not(rule: Rule): Rule;
+}
+
+${collections.join('\n\n')}
+
+export const rules = {
+${builders}
+};`;
+  }
+
+  /**
+   * Fields a rule can compare with a literal, typed as the literal
+   */
+  private static ruleFieldTypes(
+    collection: SchemaCollection,
+  ): Map<string, string> {
+    const types = new Map<string, string>([['id', 'string']]);
+    for (const field of collection.schema || []) {
+      switch (field.type) {
+        case 'text':
+        case 'email':
+        case 'url':
+        case 'editor':
+        case 'date':
+        case 'autodate':
+          types.set(field.name, 'string');
+          break;
+        case 'number':
+          types.set(field.name, 'number');
+          break;
+        case 'bool':
+          types.set(field.name, 'boolean');
+          break;
+        case 'select':
+          if ((field.options?.maxSelect ?? 1) <= 1) {
+            types.set(
+              field.name,
+              this.literalUnion(field.options?.values || []),
+            );
+          }
+          break;
+      }
+    }
+    return types;
+  }
+
+  /**
+   * Relation fields pointing at an auth collection, i.e. fields that can be
+   * compared with `@request.auth.id`. Targets given by an unknown ID count.
+   */
+  private static ownerFields(
+    collection: SchemaCollection,
+    schema: SchemaDefinition,
+  ): string[] {
+    return (collection.schema || [])
+      .filter((field) => {
+        if (field.type !== 'relation') return false;
+        const target = this.relationTarget(field, schema);
+        return !target || target.type === 'auth';
+      })
+      .map((field) => field.name);
+  }
+
+  /**
+   * Dotted relation paths from a collection with the collection each one
+   * ends at, up to three relations deep
+   */
+  private static relationPaths(
+    collection: SchemaCollection,
+    schema: SchemaDefinition,
+    prefix = '',
+    depth = 3,
+  ): [string, SchemaCollection][] {
+    if (depth === 0) return [];
+    return (collection.schema || []).flatMap((field) => {
+      const target =
+        field.type === 'relation'
+          ? this.relationTarget(field, schema)
+          : undefined;
+      if (!target) return [];
+      const path = `${prefix}${field.name}`;
+      return [
+        [path, target] as [string, SchemaCollection],
+        ...this.relationPaths(target, schema, `${path}.`, depth - 1),
+      ];
+    });
+  }
+
+  private static relationTarget(
+    field: SchemaField,
+    schema: SchemaDefinition,
+  ): SchemaCollection | undefined {
+    const target = SchemaRelations.target(field);
+    return target
+      ? schema.collections.find((c) => c.name === target || c.id === target)
+      : undefined;
+  }
+
+  private static arrayOf(type: string): string {
+    return type.includes(' | ') ? `(${type})[]` : `${type}[]`;
+  }
+
+  private static literalUnion(values: string[]): string {
+    return values.length > 0
+      ? values.map((value) => `'${value.replace(/'/g, "\\'")}'`).join(' | ')
+      : 'never';
+  }
+
+  /**
+   * Generate a typed client module: a map of each collection's generated
+   * types and `createTypedClient`, bound to it
    */
   static generateApiClient(schema: SchemaDefinition): string {
-    const collectionMethods = schema.collections
+    const collections = schema.collections
       .map((collection) => {
         const typeName = this.toPascalCase(collection.name);
+        const hasExpand = this.generateExpandFields(collection, schema) !== '';
+        const view = collection.type === 'view';
         return `  ${collection.name}: {
-    getList: (params?: PocketBaseListParams) => Promise<PocketBaseResponse<${typeName}Record>>;
-    getOne: (id: string, params?: { expand?: string; fields?: string }) => Promise<${typeName}Record>;
-    create: (data: ${typeName}Create) => Promise<${typeName}Record>;
-    update: (id: string, data: ${typeName}Update) => Promise<${typeName}Record>;
-    delete: (id: string) => Promise<boolean>;
-    getFullList: (params?: Omit<PocketBaseListParams, 'page' | 'perPage'>) => Promise<${typeName}Record[]>;
-    getFirstListItem: (filter: string, params?: { expand?: string; fields?: string }) => Promise<${typeName}Record>;
-    subscribe: (id: string, callback: (data: ${typeName}Record) => void) => () => void;
-    subscribeList: (callback: (data: PocketBaseResponse<${typeName}Record>) => void) => () => void;
+    record: ${typeName}Record;
+    create: ${view ? 'never' : `${typeName}Create`};
+    update: ${view ? 'never' : `${typeName}Update`};
+    expand: ${hasExpand ? `${typeName}Expand` : '{}'};
   };`;
       })
       .join('\n');
 
-    return `// Generated API client
-export interface PocketBaseAPI {
-${collectionMethods}
+    const typeImports = schema.collections.flatMap((collection) => {
+      const typeName = this.toPascalCase(collection.name);
+      return [
+        `${typeName}Record`,
+        ...(collection.type === 'view'
+          ? []
+          : [`${typeName}Create`, `${typeName}Update`]),
+        ...(this.generateExpandFields(collection, schema) !== ''
+          ? [`${typeName}Expand`]
+          : []),
+      ];
+    });
+
+    return `/**
+ * Generated API client for PocketBase collections
+ * Auto-generated from schema definition
+ */
+
+import type PocketBase from 'pocketbase';
+import {
+  createTypedClient as createClient,
+  type TypedClient,
+} from 'pocketvex';
+${
+  typeImports.length > 0
+    ? `import type {
+${typeImports.map((name) => `  ${name},`).join('\n')}
+} from './types.js';
+`
+    : ''
 }
+// Generated types of each collection
+export type Collections = {
+${collections}
+};
+
+export type PocketBaseAPI = TypedClient<Collections>;
 
-// Usage example:
-// const pb = new PocketBase('http://localhost:8090');
-// const users = await pb.collection('users').getList();
-// const user = await pb.collection('users').getOne('user-id');
-// const newUser = await pb.collection('users').create({ name: 'John', email: 'john@example.com' });`;
+/**
+ * Wrap a PocketBase SDK client with the schema's types:
+ *
+ *   const api = createTypedClient(new PocketBase('http://localhost:8090'));
+ *   const post = await api.collection('posts').getOne(id, {
+ *     fields: ['id', 'title'],
+ *     expand: ['author'],
+ *   });
+ */
+export function createTypedClient(pb: PocketBase): PocketBaseAPI {
+  return createClient<Collections>(pb);
+}`;
   }
 }
@@ -0,0 +1,121 @@
+import { describe, expect, test } from 'bun:test';
+import { FakeHost } from '../test/fake-host.js';
+import { typeCheck } from '../test/type-check.js';
+import { createTypedClient } from './typed-client.js';
+
+interface Posts {
+  record: { id: string; title: string; views: number; author: string };
+  create: { title: string; views?: number; author: string };
+  update: { title?: string; views?: number; author?: string };
+  expand: { author: { id: string; name: string } };
+}
+
+describe('createTypedClient', () => {
+  const host = () =>
+    new FakeHost([{ name: 'posts', fields: [] }], {
+      posts: [{ id: 'p1', title: 'Hello', views: 3, author: 'u1' }],
+    });
+
+  test('joins fields and expand, keeping expanded relations in fields', async () => {
+    const posts = host();
+    const client = createTypedClient<{ posts: Posts }>(posts.sdk());
+
+    const post = await client
+      .collection('posts')
+      .getOne('p1', { fields: ['id', 'title'], expand: ['author'] });
+
+    expect(post.title).toBe('Hello');
+    const query = posts.requests.at(-1)!.searchParams;
+    expect(query.get('fields')).toBe('id,title,expand.author');
+    expect(query.get('expand')).toBe('author');
+  });
+
+  test('leaves options alone when no lists are given', async () => {
+    const posts = host();
+    const client = createTypedClient<{ posts: Posts }>(posts.sdk());
+
+    await client.collection('posts').getList(1, 10, { filter: "title != ''" });
+
+    const query = posts.requests.at(-1)!.searchParams;
+    expect(query.get('filter')).toBe("title != ''");
+    expect(query.has('fields')).toBe(false);
+    expect(query.has('expand')).toBe(false);
+  });
+
+  test('passes subscription events on as action and record', async () => {
+    const pb = host().sdk();
+    const service = pb.collection('posts');
+    const sent: unknown[] = [];
+    // Realtime needs a live connection, so the SDK's subscribe is replaced
+    service.subscribe = async (topic, callback, options) => {
+      sent.push(options);
+      callback({ action: 'update', record: await service.getOne(topic) });
+      return async () => {};
+    };
+
+    const events: unknown[] = [];
+    await createTypedClient<{ posts: Posts }>(pb)
+      .collection('posts')
+      .subscribe('p1', (event) => events.push(event), { fields: ['id'] });
+
+    expect(sent).toEqual([{ fields: 'id' }]);
+    expect(events).toEqual([
+      {
+        action: 'update',
+        record: { id: 'p1', title: 'Hello', views: 3, author: 'u1' },
+      },
+    ]);
+  });
+
+  test('types records from the fields and relations asked for', async () => {
+    expect(
+      await typeCheck({
+        'usage.ts': `import PocketBase from 'pocketbase';
+import { createTypedClient } from 'pocketvex';
+
+interface Posts {
+  record: { id: string; title: string; views: number };
+  create: { title: string; views?: number };
+  update: { title?: string; views?: number };
+  expand: { author: { id: string; name: string } };
+}
+interface Stats {
+  record: { id: string; total: number };
+  create: never;
+  update: never;
+  expand: {};
+}
+
+const client = createTypedClient<{ posts: Posts; stats: Stats }>(
+  new PocketBase('http://127.0.0.1:8090'),
+);
+
+export async function check() {
+  const post = await client
+    .collection('posts')
+    .getOne('1', { fields: ['id', 'title'], expand: ['author'] });
+  const title: string = post.title;
+  const author: string | undefined = post.expand?.author?.name;
+  await client.collection('posts').create({ title: 'x' });
+  await client.collection('stats').getFullList();
+
+  // @ts-expect-error not in the selected fields
+  post.views;
+  // @ts-expect-error unknown field
+  await client.collection('posts').getOne('1', { fields: ['titel'] });
+  // @ts-expect-error unknown relation
+  await client.collection('posts').getOne('1', { expand: ['editor'] });
+  // @ts-expect-error missing the required title
+  await client.collection('posts').create({ views: 1 });
+  // @ts-expect-error views are read-only
+  await client.collection('stats').create({ total: 1 });
+  // @ts-expect-error unknown collection
+  client.collection('comments');
+
+  return [title, author];
+}
+`,
+      }),
+    ).toBe('');
+  }, 60000);
+});
@@ -0,0 +1,222 @@
+/**
+ * Typed PocketBase client
+ * Wraps the PocketBase SDK so records, inputs, `fields` projections and
+ * `expand` are typed from the generated collection types
+ */
+
+import type PocketBase from 'pocketbase';
+import type {
+  ListResult,
+  RecordService,
+  SendOptions,
+  UnsubscribeFunc,
+} from 'pocketbase';
+
+/**
+ * Generated types of one collection. Views have `never` create and update
+ * types and are read-only.
+ */
+export interface TypedCollectionTypes {
+  record: object;
+  create: object;
+  update: object;
+  expand: object;
+}
+
+export type TypedCollections = Record<string, TypedCollectionTypes>;
+
+/**
+ * Options of single record requests. `fields` and `expand` take names
+ * instead of comma-separated strings and narrow the returned record.
+ */
+export interface TypedRecordOptions<
+  F extends PropertyKey,
+  K extends PropertyKey,
+> extends SendOptions {
+  fields?: readonly F[];
+  expand?: readonly K[];
+}
+
+export interface TypedListOptions<
+  F extends PropertyKey,
+  K extends PropertyKey,
+> extends TypedRecordOptions<F, K> {
+  sort?: string;
+  filter?: string;
+  skipTotal?: boolean;
+}
+
+export interface TypedFullListOptions<
+  F extends PropertyKey,
+  K extends PropertyKey,
+> extends TypedListOptions<F, K> {
+  batch?: number;
+}
+
+/**
+ * Record with only the `fields` asked for, and `expand` limited to the
+ * expanded relations
+ */
+export type TypedRecord<
+  C extends TypedCollectionTypes,
+  F extends keyof C['record'] = keyof C['record'],
+  K extends keyof C['expand'] = never,
+> = Pick<C['record'], Exclude<F, 'expand'>> & {
+  expand?: Pick<C['expand'], K>;
+};
+
+export interface TypedRecordEvent<R> {
+  action: 'create' | 'update' | 'delete';
+  record: R;
+}
+
+/**
+ * Read methods of a collection, available on views too
+ */
+export interface TypedViewCollection<C extends TypedCollectionTypes> {
+  getList<
+    F extends keyof C['record'] = keyof C['record'],
+    K extends keyof C['expand'] = never,
+  >(
+    page?: number,
+    perPage?: number,
+    options?: TypedListOptions<F, K>,
+  ): Promise<ListResult<TypedRecord<C, F, K>>>;
+
+  getFullList<
+    F extends keyof C['record'] = keyof C['record'],
+    K extends keyof C['expand'] = never,
+  >(
+    options?: TypedFullListOptions<F, K>,
+  ): Promise<TypedRecord<C, F, K>[]>;
+
+  getFirstListItem<
+    F extends keyof C['record'] = keyof C['record'],
+    K extends keyof C['expand'] = never,
+  >(
+    filter: string,
+    options?: TypedListOptions<F, K>,
+  ): Promise<TypedRecord<C, F, K>>;
+
+  getOne<
+    F extends keyof C['record'] = keyof C['record'],
+    K extends keyof C['expand'] = never,
+  >(
+    id: string,
+    options?: TypedRecordOptions<F, K>,
+  ): Promise<TypedRecord<C, F, K>>;
+
+  /**
+   * Listen to changes of one record, or of every record with `'*'`
+   */
+  subscribe<
+    F extends keyof C['record'] = keyof C['record'],
+    K extends keyof C['expand'] = never,
+  >(
+    topic: string,
+    callback: (event: TypedRecordEvent<TypedRecord<C, F, K>>) => void,
+    options?: TypedRecordOptions<F, K>,
+  ): Promise<UnsubscribeFunc>;
+
+  unsubscribe(topic?: string): Promise<void>;
+}
+
+export interface TypedCollection<
+  C extends TypedCollectionTypes,
+> extends TypedViewCollection<C> {
+  create<
+    F extends keyof C['record'] = keyof C['record'],
+    K extends keyof C['expand'] = never,
+  >(
+    data: C['create'] | FormData,
+    options?: TypedRecordOptions<F, K>,
+  ): Promise<TypedRecord<C, F, K>>;
+
+  update<
+    F extends keyof C['record'] = keyof C['record'],
+    K extends keyof C['expand'] = never,
+  >(
+    id: string,
+    data: C['update'] | FormData,
+    options?: TypedRecordOptions<F, K>,
+  ): Promise<TypedRecord<C, F, K>>;
+
+  delete(id: string): Promise<boolean>;
+}
+
+export interface TypedClient<Collections extends TypedCollections> {
+  /** The wrapped SDK client, for auth and anything not covered here */
+  pb: PocketBase;
+  collection<N extends keyof Collections & string>(
+    name: N,
+  ): [Collections[N]['create']] extends [never]
+    ? TypedViewCollection<Collections[N]>
+    : TypedCollection<Collections[N]>;
+}
+
+/**
+ * Wrap a PocketBase SDK client with the generated collection types. The
+ * generated `api-client.ts` exports this bound to the schema's collections.
+ */
+export function createTypedClient<Collections extends TypedCollections>(
+  pb: PocketBase,
+): TypedClient<Collections> {
+  const collection = (name: string) =>
+    createTypedCollection(pb.collection(name));
+  return {
+    pb,
+    collection: collection as TypedClient<Collections>['collection'],
+  };
+}
+
+function createTypedCollection(
+  records: RecordService,
+): TypedCollection<TypedCollectionTypes> {
+  return {
+    getList: (page, perPage, options) =>
+      records.getList(page, perPage, toSdkOptions(options)),
+    getFullList: (options) => records.getFullList(toSdkOptions(options)),
+    getFirstListItem: (filter, options) =>
+      records.getFirstListItem(filter, toSdkOptions(options)),
+    getOne: (id, options) => records.getOne(id, toSdkOptions(options)),
+    create: (data, options) =>
+      records.create(data as FormData, toSdkOptions(options)),
+    update: (id, data, options) =>
+      records.update(id, data as FormData, toSdkOptions(options)),
+    delete: (id) => records.delete(id),
+    subscribe: (topic, callback, options) =>
+      records.subscribe(
+        topic,
+        (event) =>
+          callback({
+            action: event.action as TypedRecordEvent<unknown>['action'],
+            record: event.record,
+          }),
+        toSdkOptions(options),
+      ),
+    unsubscribe: (topic) => records.unsubscribe(topic),
+  };
+}
+
+/**
+ * Turn `fields` and `expand` lists into the SDK's comma-separated strings.
+ * Expanded relations are added to `fields`, which would drop them otherwise.
+ */
+function toSdkOptions(
+  options: TypedRecordOptions<PropertyKey, PropertyKey> = {},
+): SendOptions {
+  const { fields, expand, ...rest } = options;
+  const expanded = (expand || []).map(String);
+  return {
+    ...rest,
+    ...(expanded.length > 0 ? { expand: expanded.join(',') } : {}),
+    ...(fields && fields.length > 0
+      ? {
+          fields: [
+            ...fields.map(String),
+            ...expanded.map((name) => `expand.${name}`),
+          ].join(','),
+        }
+      : {}),
+  };
+}
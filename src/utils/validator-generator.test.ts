@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import type { SchemaDefinition } from '../types/schema.js';
+import { ValidatorGenerator } from './validator-generator.js';
+
+const schema: SchemaDefinition = {
+  collections: [
+    {
+      name: 'blog_posts',
+      schema: [
+        {
+          name: 'title',
+          type: 'text',
+          required: true,
+          options: { min: 3, max: 80 },
+        },
+        { name: 'views', type: 'number', options: { onlyInt: true, min: 0 } },
+        {
+          name: 'status',
+          type: 'select',
+          required: true,
+          options: { values: ['draft', 'live'], maxSelect: 1 },
+        },
+        {
+          name: 'tags',
+          type: 'relation',
+          options: { collection: 'tags', maxSelect: 5 },
+        },
+        { name: 'created', type: 'autodate' },
+      ],
+    },
+    {
+      name: 'events',
+      schema: [
+        {
+          name: 'starts',
+          type: 'date',
+          options: { min: "2024-01-01 00:00:00.000Z' + x + '" },
+        },
+      ],
+    },
+    {
+      name: 'members',
+      type: 'auth',
+      auth: { minPasswordLength: 10 },
+      schema: [],
+    },
+    { name: 'post_stats', type: 'view', viewQuery: 'SELECT id FROM posts' },
+  ],
+};
+
+describe('ValidatorGenerator.generateZod', () => {
+  const output = ValidatorGenerator.generateZod(schema);
+
+  test('checks field input with the constraints PocketBase enforces', () => {
+    expect(output).toContain(`const blogPostsShape = {
+  title: z.string().min(3).max(80),
+  views: z.number().int().min(0).optional(),
+  status: z.enum(["draft", "live"]),
+  tags: z.array(z.string().min(1)).max(5).optional(),
+};`);
+  });
+
+  test('writes bounds in messages as escaped string literals', () => {
+    expect(output).toContain(
+      `{ message: "Must be on or after 2024-01-01 00:00:00.000Z' + x + '" }`,
+    );
+  });
+
+  test('exports create and partial update schemas', () => {
+    expect(output).toContain(
+      'export const BlogPostsCreateSchema = z.object(blogPostsShape);',
+    );
+    expect(output).toContain(
+      'export const BlogPostsUpdateSchema = z.object(blogPostsShape).partial();',
+    );
+  });
+
+  test('adds auth system fields with the password length', () => {
+    expect(output).toContain('  password: z.string().min(10),');
+    expect(output).toContain('  email: z.string().email(),');
+  });
+
+  test('skips views and fields PocketBase sets itself', () => {
+    expect(output).not.toContain('PostStats');
+    expect(output).not.toContain('created:');
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Validator Generator for PocketBase Schema
+ * Generates Zod schemas that check record input with the constraints
+ * PocketBase enforces, so clients can validate before sending
+ */
+
+import type {
+  SchemaDefinition,
+  SchemaCollection,
+  SchemaField,
+} from '../types/schema.js';
+
+export type ValidatorKind = 'zod';
+
+export const VALIDATOR_KINDS: ValidatorKind[] = ['zod'];
+
+export class ValidatorGenerator {
+  /**
+   * Generate Zod Create and Update schemas for every writable collection
+   */
+  static generateZod(schema: SchemaDefinition): string {
+    const collections = schema.collections
+      .filter((collection) => collection.type !== 'view')
+      .map((collection) => this.generateCollectionValidators(collection));
+
+    return `/**
+ * Generated Zod validators for PocketBase collections
+ * Auto-generated from schema definition
+ */
+
+import { z } from 'zod';
+
+${collections.join('\n\n')}`;
+  }
+
+  /**
+   * Generate the Create and Update schemas of a collection. Update accepts
+   * any subset of the Create fields.
+   */
+  private static generateCollectionValidators(
+    collection: SchemaCollection,
+  ): string {
+    const typeName = this.toPascalCase(collection.name);
+    const shapeName = `${collection.name.charAt(0).toLowerCase()}${typeName.slice(1)}Shape`;
+    const fields = [
+      ...(collection.type === 'auth' ? this.authFields(collection) : []),
+      ...(collection.schema || [])
+        .map((field) => [field.name, this.fieldValidator(field)])
+        .filter((entry): entry is [string, string] => entry[1] !== undefined),
+    ];
+
+    return `// ${collection.name} collection
+const ${shapeName} = {
+${fields.map(([name, validator]) => `  ${name}: ${validator},`).join('\n')}
+};
+
+export const ${typeName}CreateSchema = z.object(${shapeName});
+export const ${typeName}UpdateSchema = z.object(${shapeName}).partial();`;
+  }
+
+  /**
+   * System fields auth records are created with
+   */
+  private static authFields(collection: SchemaCollection): [string, string][] {
+    const minLength =
+      collection.auth?.minPasswordLength ??
+      collection.schema?.find((field) => field.name === 'password')?.options
+        ?.min ??
+      8;
+    return [
+      ['email', 'z.string().email()'],
+      ['emailVisibility', 'z.boolean().optional()'],
+      ['password', `z.string().min(${minLength})`],
+      ['passwordConfirm', 'z.string()'],
+      ['verified', 'z.boolean().optional()'],
+    ];
+  }
+
+  /**
+   * Zod expression for a field's input, or undefined for fields PocketBase
+   * sets itself
+   */
+  private static fieldValidator(field: SchemaField): string | undefined {
+    const options = field.options || {};
+    const required = field.required || false;
+    const multiple = (options.maxSelect ?? 1) > 1;
+    const checks: string[] = [];
+
+    let base: string;
+    switch (field.type) {
+      case 'text':
+      case 'password':
+      case 'editor':
+        base = 'z.string()';
+        if (typeof options.min === 'number' && options.min > 0) {
+          checks.push(`.min(${options.min})`);
+        }
+        if (typeof options.max === 'number' && options.max > 0) {
+          checks.push(`.max(${options.max})`);
+        }
+        if (options.pattern) {
+          checks.push(`.regex(new RegExp(${JSON.stringify(options.pattern)}))`);
+        }
+        break;
+
+      case 'email':
+        base = 'z.string().email()';
+        checks.push(...this.domainChecks(options, "value.split('@').pop()"));
+        break;
+
+      case 'url':
+        base = 'z.string().url()';
+        checks.push(...this.domainChecks(options, 'new URL(value).hostname'));
+        break;
+
+      case 'number':
+        base = 'z.number()';
+        if (options.onlyInt) checks.push('.int()');
+        if (typeof options.min === 'number')
+          checks.push(`.min(${options.min})`);
+        if (typeof options.max === 'number')
+          checks.push(`.max(${options.max})`);
+        // PocketBase treats 0 as blank
+        if (required) {
+          checks.push(
+            ".refine((value) => value !== 0, { message: 'Cannot be blank' })",
+          );
+        }
+        break;
+
+      case 'bool':
+        // A required bool must be true
+        return required ? 'z.literal(true)' : 'z.boolean().optional()';
+
+      case 'date':
+        base = 'z.string()';
+        checks.push(
+          ".refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' })",
+        );
+        if (options.min) {
+          checks.push(
+            `.refine((value) => Date.parse(value) >= Date.parse(${JSON.stringify(options.min)}), { message: ${JSON.stringify(`Must be on or after ${options.min}`)} })`,
+          );
+        }
+        if (options.max) {
+          checks.push(
+            `.refine((value) => Date.parse(value) <= Date.parse(${JSON.stringify(options.max)}), { message: ${JSON.stringify(`Must be on or before ${options.max}`)} })`,
+          );
+        }
+        break;
+
+      case 'select': {
+        const values = options.values || [];
+        const value =
+          values.length > 0
+            ? `z.enum([${values.map((v) => JSON.stringify(v)).join(', ')}])`
+            : 'z.string()';
+        if (!multiple) {
+          return required ? value : `${value}.or(z.literal('')).optional()`;
+        }
+        return this.arrayValidator(value, options, required);
+      }
+
+      case 'file': {
+        const fileChecks: string[] = [];
+        if (options.maxSize) {
+          fileChecks.push(
+            `.refine((file) => file.size <= ${options.maxSize}, { message: 'File is larger than ${options.maxSize} bytes' })`,
+          );
+        }
+        if (options.mimeTypes?.length) {
+          fileChecks.push(
+            `.refine((file) => ${JSON.stringify(options.mimeTypes)}.includes(file.type), { message: 'File type is not allowed' })`,
+          );
+        }
+        const file = `z.instanceof(Blob)${fileChecks.join('')}`;
+        if (!multiple) return required ? file : `${file}.optional()`;
+        return this.arrayValidator(file, options, required);
+      }
+
+      case 'relation': {
+        const id = 'z.string().min(1)';
+        if (!multiple) return required ? id : 'z.string().optional()';
+        return this.arrayValidator(id, options, required);
+      }
+
+      case 'json':
+        return required
+          ? "z.unknown().refine((value) => value !== null && value !== undefined, { message: 'Cannot be blank' })"
+          : 'z.unknown().optional()';
+
+      case 'geoPoint':
+        base =
+          'z.object({ lon: z.number().min(-180).max(180), lat: z.number().min(-90).max(90) })';
+        break;
+
+      case 'autodate':
+        return undefined;
+
+      default:
+        base = 'z.unknown()';
+    }
+
+    const isString = base.startsWith('z.string()');
+    if (required) {
+      // Blank strings fail required fields even without a min length
+      const blank =
+        base === 'z.string()' && !checks.some((c) => c.startsWith('.min('));
+      return `${base}${blank ? '.min(1)' : ''}${checks.join('')}`;
+    }
+    const validator = `${base}${checks.join('')}`;
+    // Optional strings may also be left blank, which skips their checks
+    return isString && validator !== 'z.string()'
+      ? `${validator}.or(z.literal('')).optional()`
+      : `${validator}.optional()`;
+  }
+
+  /**
+   * Array of values bounded by `minSelect`/`maxSelect`
+   */
+  private static arrayValidator(
+    item: string,
+    options: NonNullable<SchemaField['options']>,
+    required: boolean,
+  ): string {
+    const min = Math.max(options.minSelect ?? 0, required ? 1 : 0);
+    const validator = `z.array(${item})${min > 0 ? `.min(${min})` : ''}.max(${options.maxSelect})`;
+    return required ? validator : `${validator}.optional()`;
+  }
+
+  /**
+   * Checks for `onlyDomains` and `exceptDomains`, given an expression for the
+   * domain of `value`
+   */
+  private static domainChecks(
+    options: NonNullable<SchemaField['options']>,
+    domain: string,
+  ): string[] {
+    const checks: string[] = [];
+    if (options.onlyDomains?.length) {
+      checks.push(
+        `.refine((value) => ${JSON.stringify(options.onlyDomains)}.includes(${domain}!), { message: 'Domain is not allowed' })`,
+      );
+    }
+    if (options.exceptDomains?.length) {
+      checks.push(
+        `.refine((value) => !${JSON.stringify(options.exceptDomains)}.includes(${domain}!), { message: 'Domain is not allowed' })`,
+      );
+    }
+    return checks;
+  }
+
+  /**
+   * Convert string to PascalCase, matching the generated type names
+   */
+  private static toPascalCase(str: string): string {
+    return str
+      .split(/[-_\s]+/)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+      .join('');
+  }
+}